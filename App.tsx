@@ -1,79 +1,155 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Mic, Clock, Zap, AlertTriangle, Hourglass, FileDown, Lock, LogIn, Headphones, X as CloseIcon, RefreshCcw, Layers, Cpu, Sparkles, Activity, FileAudio, Upload, BookOpen, FolderOpen, Save, Wand2, ArrowRightCircle, Download } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Mic, MicOff, Loader2, Clock, Zap, AlertTriangle, Hourglass, FileDown, LogIn, Headphones, X as CloseIcon, RefreshCcw, Layers, Cpu, Sparkles, Activity, FileAudio, Upload, BookOpen, FolderOpen, Save, Wand2, ArrowRightCircle, Download, Settings2, WifiOff } from 'lucide-react';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
 import { useStopwatch } from './hooks/useStopwatch';
+import { useIntercom } from './hooks/useIntercom';
+import { useSpeechSynthesis } from './hooks/useSpeechSynthesis';
+import { useNetworkStatus } from './hooks/useNetworkStatus';
+import { useOfflineBuffer } from './hooks/useOfflineBuffer';
+import { useAudioRecorder } from './hooks/useAudioRecorder';
+import { useBatchQueue, QueuedJob, BatchTarget } from './hooks/useBatchQueue';
+import { useServiceWorker } from './hooks/useServiceWorker';
 import { Controls } from './components/Controls';
-import { TranscriptArea } from './components/TranscriptArea';
+import { TranscriptArea, TranscriptAreaHandle } from './components/TranscriptArea';
 import { ContextPanel } from './components/ContextPanel';
 import { NetworkStatus } from './components/NetworkStatus';
+import { SessionPlayer, SessionPlayerHandle } from './components/SessionPlayer';
+import { BatchQueuePanel } from './components/BatchQueuePanel';
 import { SessionVault } from './components/SessionVault';
-import { TranscriptionStatus, SessionMetadata, SessionData } from './types';
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { LanguagePairPicker } from './components/LanguagePairPicker';
+import { VoiceSettings } from './components/VoiceSettings';
+import { ExportMenu, ExportRequest } from './components/ExportMenu';
+import { SpeakerMenu } from './components/SpeakerMenu';
+import { GlossaryDialog } from './components/GlossaryDialog';
+import { ReferencePassages } from './components/ReferencePassages';
+import { ImportConflictDialog, ImportResolution } from './components/ImportConflictDialog';
+import { AuthScreen } from './components/AuthScreen';
+import { AccountMenu } from './components/AccountMenu';
+import { useIdleLock } from './hooks/useIdleLock';
+import { authProvider, AuthUser } from './services/auth';
+import { createGenAI, isAiConfigured } from './services/genai';
+import { AiRole, ROLE_LABELS, getProviderForRole, isRoleConfigured } from './services/providers';
+import { AiSettings } from './components/AiSettings';
+import { TranscriptionStatus, SessionMetadata, SessionData, LanguagePair, SessionBundleEntry, TranscriptSegment, AudioChunk, AudioTake, GlossaryEntry, ReferenceFile, OfflineGap } from './types';
+import { DEFAULT_LANGUAGE_PAIR, getLanguage } from './constants';
+import { generateId, needsTranslation, joinSegments, applyById, segmentsFromLegacy, segmentsFromTranscript, insertByTime, segmentAtTime } from './utils/segments';
+import { buildSubtitles } from './utils/subtitles';
+import { speakerName, listSpeakers, nextSpeakerId, startsTurn } from './utils/speakers';
+import { relevantGlossary, refinerGlossary, glossaryIssues, glossaryToCsv } from './utils/glossary';
+import { buildReferenceIndex, passagesForSegments, sessionReferences } from './utils/retrieval';
+import { buildMinutesDocx, buildMinutesPdf, MinutesDocument } from './utils/documentExport';
+import { sessionStore, StorageQuotaError, SealedSession } from './services/sessionStore';
+import { createBundle, parseBundle } from './utils/sessionBundle';
+import { searchDocs } from './utils/search';
+import { fileToBase64 } from './utils/blob';
+import { retryWithBackoff } from './utils/async';
+import { stitchBatchJob } from './services/batchTranscription';
+import { GenerateContentResponse, Type } from "@google/genai";
 
-const VALID_PASSWORDS = ['Hieuai', 'Hieuai@'];
-const AUTH_KEY = 'livescribe_auth_v1';
-const SESSIONS_META_KEY = 'scribe_sessions_meta_v1';
-const SESSION_DATA_PREFIX = 'scribe_session_data_v1_';
+
+// Cap how many segments go into one real-time request so latency stays low
+const MAX_REALTIME_SEGMENTS = 6;
+// Consecutive refiner failures after which segments go on to the interpreter unrefined
+const MAX_REFINE_FAILURES = 3;
+const AUTOSAVE_MS = 5000;
+// How soon after an edit an encrypted copy is ready for a tab that is being closed
+const SEAL_MS = 1000;
 
 // Helpers
-const generateId = () => Math.random().toString(36).substring(2, 11);
-
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = error => reject(error);
-  });
+const downloadFile = (content: BlobPart, type: string, fileName: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
 };
 
-async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
-  try { return await fn(); } catch (error: any) {
-    const isQuota = error?.status === 429 || error?.message?.includes('429');
-    if (isQuota && retries > 0) {
-      await new Promise(res => setTimeout(res, delay));
-      return retryWithBackoff(fn, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-}
+// The live interpreter always talks to Gemini, so it counts alongside the per-role providers
+const isEveryRoleConfigured = () =>
+  isAiConfigured() && (Object.keys(ROLE_LABELS) as AiRole[]).every(role => isRoleConfigured(role));
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => sessionStorage.getItem(AUTH_KEY) === 'true');
-  const [passwordInput, setPasswordInput] = useState('');
+  // Signed-in user lives in memory only: a reload always asks for the passphrase again
+  const [authUser, setAuthUser] = useState<AuthUser | null>(null);
+  const [authConfigured, setAuthConfigured] = useState<boolean | null>(null);
+  const [askUsername, setAskUsername] = useState(false);
+  const [isLocked, setIsLocked] = useState(false);
+  const [captureStoppedByLock, setCaptureStoppedByLock] = useState(false);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+  const [idleLockMinutes, setIdleLockMinutes] = useState(() => authProvider.getSettings().idleLockMinutes);
+  const isAuthenticated = authUser !== null;
   
   const [sessions, setSessions] = useState<SessionMetadata[]>([]);
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [isVaultOpen, setIsVaultOpen] = useState(false);
   const [lastSaved, setLastSaved] = useState<number>(0);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const unsavedRef = useRef(false); // Changes the autosave has not written yet
+  const saveNowRef = useRef<(() => Promise<boolean>) | null>(null);
+  const sealNowRef = useRef<(() => Promise<void>) | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const sealTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Edits are counted so an encrypted copy is never written over a newer save
+  const editVersionRef = useRef(0);
+  const savedVersionRef = useRef(0);
+  const sealedRef = useRef<{ version: number; sealed: SealedSession } | null>(null);
+  const serviceWorker = useServiceWorker();
+  const [storageUsage, setStorageUsage] = useState<{ usage: number; quota: number } | null>(null);
+  const [pendingImport, setPendingImport] = useState<SessionBundleEntry[] | null>(null);
+  const [languagePair, setLanguagePair] = useState<LanguagePair>(DEFAULT_LANGUAGE_PAIR);
+  const sourceLang = getLanguage(languagePair.source);
+  const targetLang = getLanguage(languagePair.target);
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({});
+  // Speaker the next live segments are labelled with, chosen by hand during capture
+  const [liveSpeaker, setLiveSpeaker] = useState<string | undefined>(undefined);
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>([]);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+
+  // Session clock read by the recognizer when it stamps sentences; wired to the stopwatch below
+  const clockRef = useRef<() => number>(() => 0);
+  const { isOnline, ping } = useNetworkStatus();
 
   const {
-    status, text, interimText,
+    status, segments, text, interimText,
     startRecording, pauseRecording, stopRecording, clearTranscript,
-    setText, isSupported
-  } = useSpeechRecognition();
+    setSegments, isSupported
+  } = useSpeechRecognition(sourceLang.locale, () => clockRef.current(), !isOnline, liveSpeaker);
 
   const isRecording = status === TranscriptionStatus.RECORDING;
-  const { elapsedTime, formatTime, resetTimer } = useStopwatch(isRecording);
+  const { elapsedTime, formatTime, resetTimer, getElapsed } = useStopwatch(isRecording);
+  clockRef.current = getElapsed;
+
+  // Degraded mode: with no connection the microphone is buffered locally and transcribed on reconnect
+  const { gaps: offlineGaps, isBuffering, error: bufferError, removeGap, settled: offlineAudioSettled } = useOfflineBuffer(isRecording && !isOnline, activeSessionId, getElapsed, isAuthenticated);
+  const recoveringGapsRef = useRef(new Set<string>());
+  const [failedGapIds, setFailedGapIds] = useState<string[]>([]);
+  const activeSessionIdRef = useRef(activeSessionId);
+  activeSessionIdRef.current = activeSessionId;
   
   const [aiError, setAiError] = useState<string | null>(null);
   const [contextDesc, setContextDesc] = useState('');
-  const [contextFileName, setContextFileName] = useState('');
-  const [fileContent, setFileContent] = useState('');
-  const [translatedText, setTranslatedText] = useState('');
+  const [referenceFiles, setReferenceFiles] = useState<ReferenceFile[]>([]);
+  const referenceIndex = useMemo(() => buildReferenceIndex(referenceFiles), [referenceFiles]);
+  const referenceNames = referenceFiles.map(f => f.name).join(', ');
+  const translatedText = useMemo(() => joinSegments(segments, 'translation'), [segments]);
   const [isTranslating, setIsTranslating] = useState(false);
   const [isRefining, setIsRefining] = useState(false);
   const [isBatchMode, setIsBatchMode] = useState(false);
-  const [batchFileProcessing, setBatchFileProcessing] = useState(false);
+  const batchFileInputRef = useRef<HTMLInputElement>(null);
   
   const [isLiveMode, setIsLiveMode] = useState(false);
   const [liveTranscription, setLiveTranscription] = useState<{user: string, ai: string}[]>([]);
+  const [pendingLiveTurns, setPendingLiveTurns] = useState(0);
+  // Bumped on every enter/exit so late responses from a closed intercom are dropped
+  const liveSessionRef = useRef(0);
+  // Turns are interpreted in parallel but appended strictly in the order they were spoken
+  const liveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
-  const refinedRef = useRef(0); 
-  const processedRef = useRef(0); 
-  
   const refiningInProgressRef = useRef(false);
+  const refineFailuresRef = useRef(0);
   const translatingRef = useRef(false);
   const lastRequestTimeRef = useRef<number>(0);
   const minIntervalRef = useRef<number>(500); 
@@ -85,27 +161,84 @@ function App() {
   const velocityRef = useRef(0); // chars per second
   
   const [ttsEnabled, setTtsEnabled] = useState(false);
-  const englishRef = useRef<HTMLDivElement>(null);
-  const vietnameseRef = useRef<HTMLDivElement>(null);
+  const englishRef = useRef<TranscriptAreaHandle>(null);
+  const vietnameseRef = useRef<TranscriptAreaHandle>(null);
   const isSyncingScroll = useRef(false);
+  const [hoveredSegmentId, setHoveredSegmentId] = useState<string | null>(null);
+  const [selectedSegmentId, setSelectedSegmentId] = useState<string | null>(null);
+  const [showTimestamps, setShowTimestamps] = useState(true);
+  // Segment to scroll to once a session opened from a search result has rendered
+  const [pendingRevealId, setPendingRevealId] = useState<string | null>(null);
+  // Recorded audio of the open session and where its playback currently is
+  const [sessionAudio, setSessionAudio] = useState<AudioTake[]>([]);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const playerRef = useRef<SessionPlayerHandle>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [aiConfigured, setAiConfigured] = useState(() => isEveryRoleConfigured());
 
   useEffect(() => {
-    const meta = localStorage.getItem(SESSIONS_META_KEY);
-    if (meta) {
-      const parsed = JSON.parse(meta);
-      setSessions(parsed);
-      if (parsed.length > 0) handleSelectSession(parsed[0].id);
-      else createNewSession("Initial Session");
-    } else {
-      createNewSession("Untitled Meeting");
-    }
+    Promise.all([authProvider.isConfigured(), authProvider.hasMultipleUsers()]).then(([configured, multiple]) => {
+      setAuthConfigured(configured);
+      setAskUsername(multiple);
+    });
+  }, []);
+
+  // Sessions are only read once someone has signed in
+  useEffect(() => {
+    if (!authUser) return;
+    sessionStore.listSessions().then(stored => {
+      setSessions(stored);
+      if (stored.length > 0) handleSelectSession(stored[0].id, stored);
+      else createNewSession("Untitled Meeting", stored);
+    }).catch(err => {
+      console.error(err);
+      setStorageWarning("Browser storage is unavailable. Sessions will not be saved on this device.");
+      createNewSession("Untitled Meeting", []);
+    });
+  }, [authUser?.id]);
+
+  // Refresh the usage meter whenever the Vault is opened
+  useEffect(() => {
+    if (!isVaultOpen) return;
+    sessionStore.estimateUsage().then(setStorageUsage).catch(() => setStorageUsage(null));
+  }, [isVaultOpen, sessions]);
+
+  // Throttled rather than debounced: the session clock ticks every second while recording,
+  // which would otherwise keep pushing the save back until capture stops
+  // Edits that arrive while locked are picked up again on unlock
+  useEffect(() => {
+    if (!activeSessionId || !isAuthenticated || isLocked) return;
+    unsavedRef.current = true;
+    editVersionRef.current++;
+    if (!saveTimerRef.current) saveTimerRef.current = setTimeout(() => { saveTimerRef.current = null; saveNowRef.current?.(); }, AUTOSAVE_MS);
+    if (!sealTimerRef.current) sealTimerRef.current = setTimeout(() => { sealTimerRef.current = null; sealNowRef.current?.(); }, SEAL_MS);
+  }, [segments, contextDesc, referenceFiles, languagePair, speakerNames, glossary, activeSessionId, elapsedTime, isLocked]);
+
+  useEffect(() => () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    if (sealTimerRef.current) clearTimeout(sealTimerRef.current);
   }, []);
 
+  // A hidden tab may be closed or discarded without further notice. Encryption is asynchronous and
+  // would not finish on `pagehide`, so the copy sealed ahead of time is written synchronously first.
   useEffect(() => {
-    if (!activeSessionId || !isAuthenticated) return;
-    const saveTimer = setTimeout(() => saveCurrentToStorage(), 5000);
-    return () => clearTimeout(saveTimer);
-  }, [text, translatedText, contextDesc, contextFileName, fileContent, activeSessionId, elapsedTime]);
+    const flush = () => {
+      if (!unsavedRef.current) return;
+      const pending = sealedRef.current;
+      if (pending && pending.version > savedVersionRef.current && pending.sealed.meta.id === activeSessionIdRef.current) {
+        sessionStore.writeSealedSession(pending.sealed).catch(err => console.error(err));
+      }
+      saveNowRef.current?.();
+    };
+    const onVisibilityChange = () => { if (document.visibilityState === 'hidden') flush(); };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    window.addEventListener('pagehide', flush);
+    return () => {
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      window.removeEventListener('pagehide', flush);
+    };
+  }, []);
 
   // Velocity tracker for dynamic buffering
   useEffect(() => {
@@ -118,75 +251,241 @@ function App() {
     return () => clearInterval(interval);
   }, [text.length, isRecording]);
 
-  const saveCurrentToStorage = () => {
-    if (!activeSessionId) return;
-    // Fix: Remove 'contextFileName' shorthand as it's not a property of SessionData. 'fileName' is correctly assigned below.
+  const reportStorageError = (err: unknown) => {
+    console.error(err);
+    setStorageWarning(err instanceof StorageQuotaError
+      ? "Browser storage is full, so recent changes were not saved. Open the Vault, sort by size and delete old sessions to free space."
+      : "Could not write this session to browser storage.");
+  };
+
+  const currentSnapshot = (): { meta: SessionMetadata; data: SessionData } | null => {
+    const current = sessions.find(s => s.id === activeSessionId);
+    if (!current) return null;
     const data: SessionData = {
       text,
       translatedText,
+      segments,
       contextDesc,
-      fileContent,
-      fileName: contextFileName,
-      processedIndex: processedRef.current
+      references: referenceFiles,
+      languagePair,
+      speakers: speakerNames,
+      glossary
     };
-    localStorage.setItem(SESSION_DATA_PREFIX + activeSessionId, JSON.stringify(data));
-    setSessions(prev => {
-      const updated = prev.map(s => {
-        if (s.id === activeSessionId) {
-          return { ...s, updatedAt: Date.now(), durationSeconds: elapsedTime, wordCount: text.split(/\s+/).filter(Boolean).length };
-        }
-        return s;
-      });
-      localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updated));
-      return updated;
-    });
+    const meta: SessionMetadata = {
+      ...current,
+      updatedAt: Date.now(),
+      durationSeconds: elapsedTime,
+      wordCount: text.split(/\s+/).filter(Boolean).length,
+      sizeBytes: new Blob([JSON.stringify(data)]).size
+    };
+    return { meta, data };
+  };
+
+  const saveCurrentToStorage = async (): Promise<boolean> => {
+    const snapshot = currentSnapshot();
+    if (!snapshot) return false;
+    const version = editVersionRef.current;
+    unsavedRef.current = false; // Edits made while this write is in flight set it again
+    try {
+      await sessionStore.saveSession(snapshot.meta, snapshot.data);
+    } catch (err) {
+      unsavedRef.current = true;
+      reportStorageError(err);
+      return false;
+    }
+    savedVersionRef.current = Math.max(savedVersionRef.current, version);
+    setSessions(prev => prev.map(s => s.id === snapshot.meta.id ? snapshot.meta : s));
+    setStorageWarning(null);
     setLastSaved(Date.now());
+    return true;
+  };
+  saveNowRef.current = isAuthenticated && !isLocked ? saveCurrentToStorage : null;
+
+  const sealCurrent = async () => {
+    const snapshot = currentSnapshot();
+    if (!snapshot) return;
+    const version = editVersionRef.current;
+    try {
+      const sealed = await sessionStore.sealSession(snapshot.meta, snapshot.data);
+      if (!sealedRef.current || sealedRef.current.version < version) sealedRef.current = { version, sealed };
+    } catch (err) {
+      console.error(err);
+    }
+  };
+  sealNowRef.current = isAuthenticated && !isLocked ? sealCurrent : null;
+
+  // The new version takes over with a reload, so the open session is written first
+  const handleApplyUpdate = async () => {
+    if (isRecording && !confirm("Updating reloads the app and stops the current recording. Update now?")) return;
+    if (isAuthenticated) await saveCurrentToStorage();
+    serviceWorker.applyUpdate();
   };
 
-  const createNewSession = (name: string) => {
+  const createNewSession = async (name: string, known: SessionMetadata[] = sessions) => {
     const id = generateId();
     const newMeta: SessionMetadata = { id, name, createdAt: Date.now(), updatedAt: Date.now(), durationSeconds: 0, wordCount: 0 };
-    const updatedMeta = [newMeta, ...sessions];
+    const updatedMeta = [newMeta, ...known];
+    // A failed write still opens the folder so capture can go on; the warning explains why it is not kept
+    try { await sessionStore.saveSession(newMeta); } catch (err) { reportStorageError(err); }
     setSessions(updatedMeta);
-    localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updatedMeta));
-    handleSelectSession(id);
+    await handleSelectSession(id, updatedMeta);
     setIsVaultOpen(false);
   };
 
-  const handleSelectSession = (id: string) => {
-    if (activeSessionId) saveCurrentToStorage();
-    const dataRaw = localStorage.getItem(SESSION_DATA_PREFIX + id);
-    if (dataRaw) {
-      const data: SessionData = JSON.parse(dataRaw);
-      setText(data.text || '');
-      setTranslatedText(data.translatedText || '');
+  // `known` is the session list to resolve against when state has not caught up yet (startup, create, delete).
+  // `saveCurrent` is off when the open session was just replaced in storage and must not be written back.
+  // Resolves to false when the session could not be read; the previous one then stays open.
+  const handleSelectSession = async (id: string, known: SessionMetadata[] = sessions, saveCurrent = true): Promise<boolean> => {
+    if (saveCurrent && activeSessionId && known.some(s => s.id === activeSessionId)) await saveCurrentToStorage();
+    let data: SessionData | null;
+    try {
+      data = await sessionStore.loadSession(id);
+    } catch (err) {
+      // Opening an empty editor here would let the autosave overwrite the stored session
+      console.error(err);
+      setStorageWarning("This session could not be read from browser storage, so it was not opened.");
+      return false;
+    }
+    if (data) {
+      setSegments(data.segments || segmentsFromLegacy(data.text || '', data.translatedText || ''));
       setContextDesc(data.contextDesc || '');
-      setContextFileName(data.fileName || '');
-      setFileContent(data.fileContent || '');
-      processedRef.current = data.processedIndex || 0;
-      refinedRef.current = (data.text || '').length;
+      setReferenceFiles(sessionReferences(data));
+      setLanguagePair(data.languagePair || DEFAULT_LANGUAGE_PAIR);
+      setSpeakerNames(data.speakers || {});
+      setGlossary(data.glossary || []);
     } else {
-      setText(''); setTranslatedText(''); setContextDesc(''); setContextFileName(''); setFileContent('');
-      processedRef.current = 0; refinedRef.current = 0;
+      // No stored body yet: a new folder, or one created before its first save
+      setSegments([]); setContextDesc(''); setReferenceFiles([]);
+      setLanguagePair(DEFAULT_LANGUAGE_PAIR);
+      setSpeakerNames({});
+      setGlossary([]);
     }
-    resetTimer();
+    setLiveSpeaker(undefined);
+    setSelectedSegmentId(null);
+    // Continue the session clock where the meeting left off so new timestamps follow the old ones
+    resetTimer(known.find(s => s.id === id)?.durationSeconds || 0);
     setActiveSessionId(id);
     setIsVaultOpen(false);
+    return true;
   };
 
-  const handleDeleteSession = (id: string) => {
+  const handleDeleteSession = async (id: string) => {
+    try { await sessionStore.deleteSession(id); } catch (err) { reportStorageError(err); return; }
     const updated = sessions.filter(s => s.id !== id);
     setSessions(updated);
-    localStorage.setItem(SESSIONS_META_KEY, JSON.stringify(updated));
-    localStorage.removeItem(SESSION_DATA_PREFIX + id);
     if (activeSessionId === id) {
-      if (updated.length > 0) handleSelectSession(updated[0].id);
-      else createNewSession("Untitled Meeting");
+      if (updated.length > 0) await handleSelectSession(updated[0].id, updated);
+      else await createNewSession("Untitled Meeting", updated);
     }
   };
 
-  const exportSession = () => {
+  const exportSessionBundle = async (ids: string[]) => {
+    // Flush the open session first so the bundle carries its latest edits
+    if (activeSessionId && ids.includes(activeSessionId)) await saveCurrentToStorage();
+    const entries: SessionBundleEntry[] = [];
+    for (const meta of sessions.filter(s => ids.includes(s.id))) {
+      const data = await sessionStore.loadSession(meta.id);
+      if (data) entries.push({ meta, data });
+    }
+    if (entries.length === 0) return alert("Nothing to export yet.");
+    const fileName = entries.length === 1
+      ? `${entries[0].meta.name.replace(/\s+/g, '_')}.hieuai.json`
+      : `HIEUAI_Sessions_${new Date().toISOString().slice(0, 10)}.hieuai.json`;
+    downloadFile(JSON.stringify(createBundle(entries), null, 2), 'application/json', fileName);
+  };
+
+  const importSessionBundle = async (file: File) => {
+    let entries: SessionBundleEntry[];
+    try {
+      entries = parseBundle(await file.text()).sessions;
+    } catch (err: any) {
+      return alert(`Import failed: ${err.message}`);
+    }
+    if (entries.length === 0) return alert("The bundle contains no sessions.");
+    if (entries.some(e => sessions.some(s => s.id === e.meta.id))) setPendingImport(entries);
+    else await applyImport(entries, {});
+  };
+
+  const applyImport = async (entries: SessionBundleEntry[], resolutions: Record<string, ImportResolution>) => {
+    setPendingImport(null);
+    if (isRecording && activeSessionId && resolutions[activeSessionId]?.action === 'overwrite') {
+      return alert("Stop recording before overwriting the open session.");
+    }
+    let merged = [...sessions];
+    let imported = 0;
+    for (const { meta, data } of entries) {
+      const resolution = resolutions[meta.id];
+      const target: SessionMetadata = resolution?.action === 'rename'
+        ? { ...meta, id: generateId(), name: resolution.name.trim() }
+        : meta;
+      try {
+        // An overwritten session's recording belongs to the old transcript, so it goes too
+        if (resolution?.action === 'overwrite') await sessionStore.replaceSession(target, data);
+        else await sessionStore.saveSession(target, data);
+      } catch (err) {
+        reportStorageError(err);
+        break;
+      }
+      merged = [target, ...merged.filter(s => s.id !== target.id)];
+      imported++;
+    }
+    setSessions(merged);
+    if (activeSessionId && resolutions[activeSessionId]?.action === 'overwrite') {
+      await handleSelectSession(activeSessionId, merged, false);
+    }
+    if (imported > 0) alert(`Imported ${imported} session${imported > 1 ? 's' : ''}.`);
+  };
+
+  const exportSession = async (request: ExportRequest) => {
     const name = sessions.find(s => s.id === activeSessionId)?.name || "session";
+    const baseName = name.replace(/\s+/g, '_');
+
+    if (request.kind === 'subtitles') {
+      const suffix = request.track === 'source' ? sourceLang.code
+        : request.track === 'translation' ? targetLang.code
+        : `${sourceLang.code}-${targetLang.code}`;
+      const mime = request.format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+      downloadFile(buildSubtitles(segments, request.track, request.format, speakerNames), mime, `${baseName}.${suffix}.${request.format}`);
+      return;
+    }
+
+    if (request.kind === 'minutes') {
+      const minutes: MinutesDocument = {
+        title: name,
+        date: new Date(sessions.find(s => s.id === activeSessionId)?.createdAt || Date.now()).toLocaleString(),
+        duration: formatTime(elapsedTime),
+        objectives: contextDesc,
+        referenceFile: referenceNames,
+        sourceName: sourceLang.name,
+        targetName: targetLang.name,
+        sourceCode: sourceLang.code,
+        targetCode: targetLang.code,
+        rows: segments
+          .filter(s => s.source.trim() || s.translation.trim())
+          .map((s, i, rows) => ({
+            time: formatTime(s.startTime),
+            speaker: startsTurn(rows, i) ? speakerName(s.speaker!, speakerNames) : undefined,
+            source: s.source.trim(),
+            translation: s.translation.trim()
+          }))
+      };
+      setIsExporting(true);
+      try {
+        const blob = request.format === 'docx' ? await buildMinutesDocx(minutes) : await buildMinutesPdf(minutes);
+        downloadFile(blob, blob.type, `${baseName}_minutes.${request.format}`);
+      } catch (e) {
+        console.error("Export error", e);
+        alert("Failed to build the document.");
+      } finally {
+        setIsExporting(false);
+      }
+      return;
+    }
+
+    const stamped = (field: 'source' | 'translation') => segments
+      .filter(s => s[field].trim())
+      .map(s => `[${formatTime(s.startTime)}] ${s.speaker ? `${speakerName(s.speaker, speakerNames)}: ` : ''}${s[field].trim()}`)
+      .join('\n');
     const content = `# HIEUAI TRANSLATE - SESSION ARCHIVE
 Title: ${name}
 Date: ${new Date().toLocaleString()}
@@ -194,66 +493,60 @@ Duration: ${formatTime(elapsedTime)}
 
 ## Context & Objectives
 ${contextDesc || "No context provided."}
-Reference File: ${contextFileName || "None"}
+Reference Files: ${referenceNames || "None"}
 
-## Original Transcript (EN)
-${text}
+## Original Transcript (${sourceLang.label})
+${stamped('source')}
 
-## Interpretation (VI)
-${translatedText}
+## Interpretation (${targetLang.label})
+${stamped('translation')}
 `;
-    const blob = new Blob([content], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${name.replace(/\s+/g, '_')}_archive.md`;
-    a.click();
-    URL.revokeObjectURL(url);
+    downloadFile(content, 'text/markdown', `${baseName}_archive.md`);
   };
 
   const refineEnglishTranscript = useCallback(async () => {
-    if (!process.env.API_KEY || refiningInProgressRef.current) return;
-    
-    const raw = text;
-    const unrefinedChunk = raw.slice(refinedRef.current).trim();
+    if (!isRoleConfigured('refine') || refiningInProgressRef.current) return;
     
-    const minThreshold = velocityRef.current > 30 ? 120 : 40;
-    if (unrefinedChunk.length < minThreshold) return; 
+    // Only segments recognition has finished with; open ones may still grow
+    const pending = segments.filter(s => s.closed && !s.refined && s.source.trim());
+    const pendingChars = pending.reduce((n, s) => n + s.source.length, 0);
+    // While the speaker is fast, batch short segments together; once they slow down, flush what we have
+    if (pending.length === 0 || (velocityRef.current > 30 && pendingChars < 120)) return;
 
     refiningInProgressRef.current = true;
     setIsRefining(true);
 
     try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const sys = `You are a transcript refiner. Fix punctuation, capitalization, and minor speech-to-text homophone errors. Context: ${contextDesc}. DO NOT paraphrase. Output ONLY refined English text.`;
-
-        // Update: Using 'gemini-flash-lite-latest' as recommended for text processing tasks.
-        const res = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
-            model: 'gemini-flash-lite-latest',
-            contents: `Refine this speech chunk: "${unrefinedChunk}"`,
-            config: { systemInstruction: sys, temperature: 0.1 }
+        const { provider, model } = getProviderForRole('refine');
+        const refined = await retryWithBackoff(() => provider.refine({
+            model,
+            segments: pending.map(s => s.source),
+            language: sourceLang,
+            context: contextDesc,
+            glossary: refinerGlossary(glossary)
         }));
-
-        if (res.text) {
-            const refined = res.text.trim();
-            setText(prev => {
-                const head = prev.slice(0, refinedRef.current);
-                const separator = (head.endsWith('\n') || head === '') ? '' : ' ';
-                const newFullText = head + separator + refined;
-                refinedRef.current = newFullText.length;
-                return newFullText;
-            });
-        }
+        const aligned = refined.length === pending.length;
+        // A misaligned answer is discarded; the raw segments are still marked so they flow on to the interpreter
+        setSegments(prev => applyById(prev, pending, (_, i) => {
+            const value = aligned ? String(refined[i] || '').trim() : '';
+            return value ? { source: value, refined: true } : { refined: true };
+        }));
+        refineFailuresRef.current = 0;
     } catch (e) {
         console.error("Refiner error", e);
+        // A refiner that keeps failing (bad key, quota) must not hold up interpretation
+        if (++refineFailuresRef.current >= MAX_REFINE_FAILURES) {
+            refineFailuresRef.current = 0;
+            setSegments(prev => applyById(prev, pending, () => ({ refined: true })));
+        }
     } finally {
         refiningInProgressRef.current = false;
         setIsRefining(false);
     }
-  }, [text, contextDesc, setText]);
+  }, [segments, contextDesc, sourceLang, glossary, setSegments]);
 
   const performTranslation = useCallback(async (isBatchRequest: boolean = false) => {
-    if (!process.env.API_KEY || (translatingRef.current && !isBatchRequest)) return;
+    if (!isRoleConfigured(isBatchRequest ? 'batchTranslate' : 'translate') || (translatingRef.current && !isBatchRequest)) return;
     
     const now = Date.now();
     const elapsed = now - lastRequestTimeRef.current;
@@ -263,69 +556,60 @@ ${translatedText}
         return;
     }
     
-    const sourceText = text;
-    const chunk = sourceText.slice(processedRef.current, isBatchRequest ? sourceText.length : refinedRef.current);
-    if (chunk.trim().length === 0) return;
+    // Real-time passes wait for the refiner; batch passes take everything still untranslated
+    const pending = segments.filter(s => needsTranslation(s) && (isBatchRequest || s.refined));
+    const batch = isBatchRequest ? pending : pending.slice(0, MAX_REALTIME_SEGMENTS);
+    if (batch.length === 0) return;
 
     translatingRef.current = true;
     setIsTranslating(true);
 
     try {
-        const endIdx = isBatchRequest ? sourceText.length : refinedRef.current;
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        // Update: Using recommended model names for Pro tasks and Lite tasks.
-        const activeModel = isBatchRequest ? 'gemini-3-pro-preview' : 'gemini-flash-lite-latest';
-        
-        let sys = `Expert Simultaneous Interpreter (EN -> VI). Context: ${contextDesc}. Rules: Final Vietnamese ONLY. Focus on semantics. Keep technical terms in English.`;
-
+        const { provider, model } = getProviderForRole(isBatchRequest ? 'batchTranslate' : 'translate');
+        const references = passagesForSegments(referenceIndex, batch.map(s => s.source));
         lastRequestTimeRef.current = Date.now();
-        const res = await ai.models.generateContent({
-            model: activeModel,
-            contents: `${isBatchRequest ? "Batch Translate the following text block precisely:" : "Interpret this segment:"}\n\n"${chunk}"`,
-            config: { 
-                systemInstruction: sys, 
-                temperature: isBatchRequest ? 0.2 : 0.1,
-                ...(isBatchRequest ? { thinkingConfig: { thinkingBudget: 8192 } } : {})
-            }
+        const translations = await provider.translate({
+            model,
+            segments: batch.map(s => s.source),
+            source: sourceLang,
+            target: targetLang,
+            context: contextDesc,
+            mode: isBatchRequest ? 'batch' : 'realtime',
+            speakers: batch.map(s => s.speaker ? speakerName(s.speaker, speakerNames) : ''),
+            glossary: relevantGlossary(glossary, batch.map(s => s.source)),
+            references: references.passages.map(i => referenceIndex.passages[i].text)
         });
-
-        if (res.text) {
-            const val = res.text.trim();
-            if (val) {
-                setTranslatedText(prev => {
-                    if (isBatchRequest) {
-                        const p = prev.trimEnd();
-                        const sep = (p.length > 0 && !p.endsWith('\n')) ? '\n\n--- BATCH PROCESSED ---\n' : '';
-                        return p + sep + val;
-                    }
-                    const p = prev.trimEnd();
-                    const sep = (p.length > 0 && !p.endsWith('\n')) ? '\n' : '';
-                    return p + sep + val;
-                });
-                processedRef.current = endIdx;
-                setAiError(null);
-            }
+        if (translations.length !== batch.length) {
+            setAiError("Interpreter answer did not line up with the transcript and was discarded.");
+            return;
         }
+        setSegments(prev => applyById(prev, batch, (s, i) => ({
+            translation: String(translations[i] || '').trim(),
+            translatedSource: s.source,
+            references: references.used[i].length > 0 ? references.used[i] : undefined
+        })));
+        setAiError(null);
     } catch (e: any) {
         setAiError("Interpreter Busy or Quota Reached.");
     } finally {
         translatingRef.current = false;
         setIsTranslating(false);
     }
-  }, [text, contextDesc, refinedRef]);
+  }, [segments, contextDesc, sourceLang, targetLang, speakerNames, glossary, referenceIndex, setSegments]);
 
   // Handle auto-triggering refiner and translator
   useEffect(() => {
-    if (!isAuthenticated || isLiveMode || isBatchMode) return;
+    // Offline, requests would only fail; pending segments are picked up again on reconnect
+    if (!isAuthenticated || isLiveMode || isBatchMode || !isOnline) return;
 
     // Trigger Refiner
-    if (!refiningInProgressRef.current && text.length > refinedRef.current + 20) {
+    if (!refiningInProgressRef.current && segments.some(s => s.closed && !s.refined)) {
         if (refineTimeoutRef.current) clearTimeout(refineTimeoutRef.current);
         refineTimeoutRef.current = setTimeout(() => refineEnglishTranscript(), 1500);
     }
 
     // Trigger Translation
-    if (!translatingRef.current && refinedRef.current > processedRef.current) {
+    if (!translatingRef.current && segments.some(s => s.refined && needsTranslation(s))) {
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
         const interval = velocityRef.current > 40 ? 400 : 800;
         retryTimeoutRef.current = setTimeout(() => performTranslation(), interval);
@@ -335,74 +619,457 @@ ${translatedText}
         if (refineTimeoutRef.current) clearTimeout(refineTimeoutRef.current);
         if (retryTimeoutRef.current) clearTimeout(retryTimeoutRef.current);
     };
-  }, [text, refineEnglishTranscript, performTranslation, isAuthenticated, isLiveMode, isBatchMode]);
+  }, [segments, refineEnglishTranscript, performTranslation, isAuthenticated, isLiveMode, isBatchMode, isOnline]);
+
+  // Rewrites the segments of a session, whether it is open or only in storage
+  const updateSessionSegments = async (sessionId: string, update: (segments: TranscriptSegment[]) => TranscriptSegment[], metaPatch: Partial<SessionMetadata> = {}) => {
+    if (sessionId === activeSessionIdRef.current) { setSegments(update); return; }
+    const meta = sessions.find(s => s.id === sessionId);
+    const data = meta ? await sessionStore.loadSession(sessionId) : null;
+    if (!meta || !data) return;
+    const updated = update(data.segments || segmentsFromLegacy(data.text || '', data.translatedText || ''));
+    const next: SessionData = { ...data, segments: updated, text: joinSegments(updated, 'source'), translatedText: joinSegments(updated, 'translation') };
+    const nextMeta: SessionMetadata = {
+      ...meta,
+      ...metaPatch,
+      updatedAt: Date.now(),
+      wordCount: next.text.split(/\s+/).filter(Boolean).length,
+      sizeBytes: new Blob([JSON.stringify(next)]).size
+    };
+    await sessionStore.saveSession(nextMeta, next);
+    setSessions(prev => prev.map(s => s.id === sessionId ? nextMeta : s));
+  };
+
+  // Batch transcription of recorded audio that covered `startTime`..`endTime` on the session clock
+  const transcribeAudio = async (audio: Blob, startTime: number, endTime: number, language = sourceLang) => {
+    const { provider, model } = getProviderForRole('transcribe');
+    const transcript = await retryWithBackoff(() => provider.transcribeFile({ model, file: audio, mimeType: audio.type || 'audio/mpeg', language }));
+    return segmentsFromTranscript(transcript, startTime, endTime);
+  };
+
+  const recoverOfflineGap = async (gap: OfflineGap) => {
+    recoveringGapsRef.current.add(gap.id);
+    try {
+        const recovered = await transcribeAudio(gap.audio, gap.startTime, gap.endTime);
+        // Untranslated segments are picked up by the interpreter loop like live ones
+        await updateSessionSegments(gap.sessionId, prev => insertByTime(prev, recovered));
+        removeGap(gap.id);
+        setFailedGapIds(prev => prev.filter(id => id !== gap.id));
+    } catch (err) {
+        console.error(err);
+        setFailedGapIds(prev => prev.includes(gap.id) ? prev : [...prev, gap.id]);
+    } finally {
+        recoveringGapsRef.current.delete(gap.id);
+    }
+  };
 
+  useEffect(() => {
+    if (!isOnline || !isAuthenticated || !isRoleConfigured('transcribe')) return;
+    offlineGaps
+      .filter(g => !recoveringGapsRef.current.has(g.id) && !failedGapIds.includes(g.id) && sessions.some(s => s.id === g.sessionId))
+      .forEach(recoverOfflineGap);
+  }, [isOnline, isAuthenticated, offlineGaps, failedGapIds, sessions]);
+
+  // A finished batch job replaces its session's transcript; new sessions also take their length from the audio
+  const applyBatchResult = async (job: QueuedJob, target: BatchTarget) => {
+    const added = stitchBatchJob(job);
+    const durationSeconds = Math.ceil(job.slices[job.slices.length - 1]?.endTime || 0);
+    const meta = sessions.find(s => s.id === target.sessionId);
+    await updateSessionSegments(target.sessionId, () => added, durationSeconds > (meta?.durationSeconds || 0) ? { durationSeconds } : {});
+    if (target.sessionId === activeSessionIdRef.current) setSelectedSegmentId(null);
+  };
+  const batchQueue = useBatchQueue(applyBatchResult);
+
+  // Every file becomes its own session, named after the file, and is transcribed in the background
   const handleAudioBatchUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !process.env.API_KEY) return;
-    setBatchFileProcessing(true); setIsTranslating(true); setAiError(null);
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (!isRoleConfigured('transcribe')) { setAiError("AI connection not configured. Add an API key or proxy in Settings."); setIsAiSettingsOpen(true); return; }
+    setAiError(null);
+    for (const file of files) {
+      const now = Date.now();
+      const meta: SessionMetadata = {
+        id: generateId(),
+        name: file.name.replace(/\.[^.]+$/, '') || file.name,
+        createdAt: file.lastModified || now,
+        updatedAt: now,
+        durationSeconds: 0,
+        wordCount: 0
+      };
+      const data: SessionData = { text: '', translatedText: '', segments: [], contextDesc: '', languagePair };
+      try { await sessionStore.saveSession(meta, data); } catch (err) { reportStorageError(err); break; }
+      setSessions(prev => [meta, ...prev]);
+      batchQueue.enqueue(file.name, { sessionId: meta.id, sources: [{ audio: file, offset: 0 }], language: sourceLang });
+    }
+  };
+
+  // Replaces a session's live transcript with a batch transcription of its stored recording
+  const retranscribeSession = async (sessionId: string) => {
+    if (!isRoleConfigured('transcribe')) { setIsAiSettingsOpen(true); return; }
+    if (isRecording && sessionId === activeSessionId) return alert("Stop recording before re-transcribing this session.");
+    if (!confirm("Replace this session's transcript with a new transcription of its recording? Edits and interpretations will be redone.")) return;
     try {
-        const base64 = await fileToBase64(file);
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const transcribeResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-            contents: { parts: [{ inlineData: { data: base64, mimeType: file.type || 'audio/mpeg' } }, { text: "Transcribe audio verbatim with timestamps if possible." }] }
-        });
-        if (transcribeResponse.text) {
-            const content = "\n[AUDIO FILE]: " + transcribeResponse.text;
-            setText(prev => prev + content);
-            if (isBatchMode) setTimeout(() => performTranslation(true), 1000);
+        const [takes, data] = await Promise.all([sessionStore.loadAudio(sessionId), sessionStore.loadSession(sessionId)]);
+        if (takes.length === 0) return alert("This session has no recording.");
+        const language = getLanguage(data?.languagePair?.source || DEFAULT_LANGUAGE_PAIR.source);
+        const name = sessions.find(s => s.id === sessionId)?.name || 'Recording';
+        if (!batchQueue.enqueue(name, { sessionId, sources: takes.map(t => ({ audio: t.audio, offset: t.startTime })), language })) {
+            return alert("This session is already being transcribed.");
         }
-    } catch (err) { setAiError("Audio file processing failed."); }
-    finally { setBatchFileProcessing(false); setIsTranslating(false); }
+        setIsVaultOpen(false);
+    } catch (err) {
+        console.error(err);
+        alert("The recording could not be loaded.");
+    }
+  };
+
+  const openBatchSession = (jobId: string) => {
+    const sessionId = batchQueue.jobs.find(j => j.id === jobId)?.sessionId;
+    if (sessionId && sessionId !== activeSessionId) handleSelectSession(sessionId);
+  };
+
+  const loadSessionAudio = useCallback((sessionId: string) => sessionStore.loadAudio(sessionId), []);
+
+  // Each recorded slice is stored right away; the Vault size is kept in the session metadata
+  const handleAudioChunk = (sessionId: string, chunk: AudioChunk) =>
+    sessionStore.appendAudioChunk(sessionId, chunk)
+      .then(() => setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, audioBytes: (s.audioBytes || 0) + chunk.data.size } : s)))
+      .catch(reportStorageError);
+  // Bumped once a stopped or paused take is fully stored, so the player reloads with all of it
+  const [audioRevision, setAudioRevision] = useState(0);
+  const handleAudioSaved = (sessionId: string) => {
+    if (sessionId === activeSessionIdRef.current) setAudioRevision(n => n + 1);
   };
+  const { error: recorderError, settled: recordedAudioSettled } = useAudioRecorder(status, activeSessionId, getElapsed, handleAudioChunk, handleAudioSaved);
 
-  const handleContextChange = useCallback((desc: string, content: string, fileName: string) => {
+  const handleContextChange = useCallback((desc: string, files: ReferenceFile[]) => {
     setContextDesc(desc);
-    setFileContent(content);
-    setContextFileName(fileName);
+    // Compared with the latest files, not this render's, so quick successive changes are all seen.
+    // Passage numbers only mean something for the documents they were taken from.
+    setReferenceFiles(prev => {
+      if (files.map(f => f.id).join() !== prev.map(f => f.id).join()) {
+        setSegments(segs => segs.some(s => s.references) ? segs.map(({ references, ...s }) => s) : segs);
+      }
+      return files;
+    });
+  }, [setSegments]);
+
+  const handleSourceEdit = useCallback((id: string, value: string) => {
+    // Hand edits are authoritative: skip the refiner and leave the translation stale for re-interpretation
+    setSegments(prev => prev.map(s => s.id === id ? { ...s, source: value, refined: true, closed: true } : s));
+  }, [setSegments]);
+
+  const handleTranslationEdit = useCallback((id: string, value: string) => {
+    setSegments(prev => prev.map(s => s.id === id ? { ...s, translation: value, translatedSource: s.source } : s));
+  }, [setSegments]);
+
+  const handleSpeakerChange = useCallback((id: string, speaker: string | undefined) => {
+    setSegments(prev => prev.map(s => s.id === id ? { ...s, speaker } : s));
+  }, [setSegments]);
+
+  const handleSpeakerRename = useCallback((id: string, name: string) => {
+    setSpeakerNames(prev => ({ ...prev, [id]: name }));
   }, []);
 
-  const handleEnglishScroll = useCallback((percentage: number) => {
+  // Named speakers stay listed even before they have said anything
+  const speakerIds = useMemo(() => {
+    const ids = listSpeakers(segments);
+    Object.keys(speakerNames).forEach(id => { if (!ids.includes(id)) ids.push(id); });
+    if (liveSpeaker && !ids.includes(liveSpeaker)) ids.push(liveSpeaker);
+    return ids;
+  }, [segments, speakerNames, liveSpeaker]);
+
+  const startNewSpeaker = () => setLiveSpeaker(nextSpeakerId(speakerIds));
+
+  // Interpretations that did not use the agreed rendering of a glossary term
+  const glossaryWarnings = useMemo(() => {
+    const terms = glossary.filter(e => e.source.trim());
+    if (terms.length === 0) return undefined;
+    const found: Record<string, string[]> = {};
+    segments.forEach(s => {
+      const issues = glossaryIssues(s, terms);
+      if (issues.length > 0) found[s.id] = issues;
+    });
+    return found;
+  }, [segments, glossary]);
+
+  // Reference passages behind the selected segment's interpretation
+  const selectedReferences = useMemo(() => {
+    const segment = segments.find(s => s.id === selectedSegmentId);
+    if (!segment?.references || segment.translatedSource !== segment.source) return [];
+    return segment.references
+      .filter(i => i < referenceIndex.passages.length)
+      .map(i => ({ index: i, ...referenceIndex.passages[i] }));
+  }, [segments, selectedSegmentId, referenceIndex]);
+
+  const loadSessionGlossary = useCallback(async (sessionId: string) => (await sessionStore.loadSession(sessionId))?.glossary || [], []);
+
+  const exportGlossary = () => {
+    const name = sessions.find(s => s.id === activeSessionId)?.name || "session";
+    downloadFile(glossaryToCsv(glossary), 'text/csv', `${name.replace(/\s+/g, '_')}_glossary.csv`);
+  };
+
+  const syncScroll = (target: React.RefObject<TranscriptAreaHandle | null>, segmentId: string, offset: number) => {
     if (isSyncingScroll.current) return;
     isSyncingScroll.current = true;
-    if (vietnameseRef.current) {
-      const { scrollHeight, clientHeight } = vietnameseRef.current;
-      vietnameseRef.current.scrollTop = percentage * (scrollHeight - clientHeight);
-    }
+    target.current?.scrollToSegment(segmentId, offset);
     setTimeout(() => { isSyncingScroll.current = false; }, 50);
+  };
+
+  const handleEnglishScroll = useCallback((segmentId: string, offset: number) => {
+    syncScroll(vietnameseRef, segmentId, offset);
   }, []);
 
-  const handleVietnameseScroll = useCallback((percentage: number) => {
-    if (isSyncingScroll.current) return;
+  const handleVietnameseScroll = useCallback((segmentId: string, offset: number) => {
+    syncScroll(englishRef, segmentId, offset);
+  }, []);
+
+  const revealInBothPanes = (id: string) => {
     isSyncingScroll.current = true;
-    if (englishRef.current) {
-      const { scrollHeight, clientHeight } = englishRef.current;
-      englishRef.current.scrollTop = percentage * (scrollHeight - clientHeight);
+    englishRef.current?.revealSegment(id);
+    vietnameseRef.current?.revealSegment(id);
+    setTimeout(() => { isSyncingScroll.current = false; }, 600);
+  };
+
+  const showPlayer = sessionAudio.length > 0 && !isRecording;
+
+  const handleSegmentSelect = useCallback((id: string) => {
+    setSelectedSegmentId(prev => prev === id ? null : id);
+    revealInBothPanes(id);
+    // With a recording available, a click also plays that moment
+    const segment = showPlayer ? segments.find(s => s.id === id) : undefined;
+    if (segment) playerRef.current?.seekTo(segment.startTime);
+  }, [segments, showPlayer]);
+
+  const playingSegmentId = useMemo(
+    () => playbackTime === null ? null : segmentAtTime(segments, playbackTime)?.id ?? null,
+    [segments, playbackTime]
+  );
+
+  // Follow playback in both panes
+  useEffect(() => {
+    if (playingSegmentId) revealInBothPanes(playingSegmentId);
+  }, [playingSegmentId]);
+
+  // (Re)load the recording when a session opens or the recorder has stored the rest of a take.
+  // Not on the status change itself: the last slice is still being written then.
+  const activeHasAudio = (sessions.find(s => s.id === activeSessionId)?.audioBytes || 0) > 0;
+  useEffect(() => {
+    setSessionAudio([]);
+    setPlaybackTime(null);
+    if (!activeSessionId || isRecording || !activeHasAudio) return;
+    let cancelled = false;
+    sessionStore.loadAudio(activeSessionId)
+      .then(takes => { if (!cancelled) setSessionAudio(takes); })
+      .catch(err => console.error(err));
+    return () => { cancelled = true; };
+  }, [activeSessionId, activeHasAudio, audioRevision]);
+
+  const searchSessions = useCallback(async (query: string) => searchDocs(await sessionStore.loadSearchIndex(), query), []);
+
+  const handleOpenMatch = async (sessionId: string, segmentId: string) => {
+    if (sessionId !== activeSessionId && !await handleSelectSession(sessionId)) return;
+    setIsVaultOpen(false);
+    setPendingRevealId(segmentId);
+  };
+
+  useEffect(() => {
+    if (!pendingRevealId || !segments.some(s => s.id === pendingRevealId)) return;
+    const id = pendingRevealId;
+    // Let the panes finish their own scroll-to-bottom on load before taking over
+    const timer = setTimeout(() => {
+      setPendingRevealId(null);
+      setSelectedSegmentId(id);
+      isSyncingScroll.current = true;
+      englishRef.current?.revealSegment(id);
+      vietnameseRef.current?.revealSegment(id);
+      setTimeout(() => { isSyncingScroll.current = false; }, 600);
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [pendingRevealId, segments]);
+
+  const interpretLiveTurn = useCallback((audio: Blob) => {
+    if (!isAiConfigured()) { setAiError("Interpreter unavailable: AI connection not configured in Settings."); return; }
+    const token = liveSessionRef.current;
+    setPendingLiveTurns(n => n + 1);
+
+    const request = (async () => {
+        const base64 = await fileToBase64(audio);
+        const ai = createGenAI();
+        const sys = `Expert Two-way Interpreter (${sourceLang.label} <-> ${targetLang.label}). Context: ${contextDesc}. Rules: Detect whether the speaker used ${sourceLang.name} or ${targetLang.name}, transcribe the turn verbatim in that language, then interpret it into the other language. Focus on semantics. Keep technical terms as spoken in the speaker's language. If there is no intelligible speech, return empty strings.`;
+
+        const res = await retryWithBackoff<GenerateContentResponse>(() => ai.models.generateContent({
+            model: 'gemini-flash-lite-latest',
+            contents: { parts: [{ inlineData: { data: base64, mimeType: audio.type || 'audio/webm' } }, { text: "Transcribe and interpret this conversational turn." }] },
+            config: {
+                systemInstruction: sys,
+                temperature: 0.1,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        transcript: { type: Type.STRING },
+                        interpretation: { type: Type.STRING }
+                    },
+                    required: ['transcript', 'interpretation']
+                }
+            }
+        }));
+        const parsed = JSON.parse(res.text || '{}');
+        return { user: (parsed.transcript || '').trim(), ai: (parsed.interpretation || '').trim() };
+    })();
+
+    liveQueueRef.current = liveQueueRef.current.then(async () => {
+        try {
+            const turn = await request;
+            if (liveSessionRef.current !== token) return;
+            if (turn.user && turn.ai) setLiveTranscription(prev => [...prev, turn]);
+            setAiError(null);
+        } catch (e) {
+            console.error("Intercom error", e);
+            if (liveSessionRef.current === token) setAiError("Interpreter Busy or Quota Reached.");
+        } finally {
+            if (liveSessionRef.current === token) setPendingLiveTurns(n => Math.max(0, n - 1));
+        }
+    });
+  }, [contextDesc, sourceLang, targetLang]);
+
+  const { isListening, isSpeaking, error: intercomError, startIntercom, stopIntercom } = useIntercom(interpretLiveTurn);
+
+  const reader = useSpeechSynthesis({
+    segments,
+    enabled: ttsEnabled && !isLiveMode,
+    capturing: isRecording || isListening,
+    locale: targetLang.locale,
+    sessionKey: activeSessionId
+  });
+
+  const startLiveMode = async () => {
+    // The intercom owns the microphone while it is open
+    if (isRecording) pauseRecording();
+    liveSessionRef.current++;
+    setPendingLiveTurns(0);
+    setAiError(null);
+    setIsLiveMode(true);
+    await startIntercom();
+  };
+
+  const stopLiveMode = () => {
+    stopIntercom();
+    liveSessionRef.current++;
+    // Turns still in flight are dropped by the token check; the next session must not queue behind them
+    liveQueueRef.current = Promise.resolve();
+    setPendingLiveTurns(0);
+    setIsLiveMode(false);
+  };
+
+  const lockWorkspace = () => {
+    setCaptureStoppedByLock(isLiveMode || status === TranscriptionStatus.RECORDING);
+    if (isLiveMode) stopLiveMode();
+    if (status === TranscriptionStatus.RECORDING) pauseRecording();
+    setIsVaultOpen(false);
+    setIsLocked(true);
+  };
+
+  // Capture is paused for the lock. Once what was recorded and edited is stored, the vault key is
+  // forgotten until the passphrase is entered again.
+  useEffect(() => {
+    if (!isLocked) return;
+    let cancelled = false;
+    (async () => {
+      await Promise.all([recordedAudioSettled(), offlineAudioSettled()]);
+      if (unsavedRef.current && !cancelled) await saveCurrentToStorage();
+      if (cancelled) return;
+      authProvider.logout();
+      await sessionStore.setEncryptionKey(null);
+    })();
+    return () => { cancelled = true; };
+  }, [isLocked]);
+
+  // Nobody touches the laptop during a long meeting, so the idle timer only runs while nothing is being captured
+  useIdleLock(isAuthenticated && !isLocked && !isRecording && !isLiveMode, idleLockMinutes, lockWorkspace);
+
+  const handleAuthSubmit = async (username: string | null, passphrase: string) => {
+    const user = authConfigured
+      ? await authProvider.login(username, passphrase)
+      : await authProvider.setup(username || '', passphrase);
+    sessionStore.setOwner(user);
+    // Session bodies can only be decrypted from here on; plaintext left by older versions is sealed now
+    try {
+      await sessionStore.setEncryptionKey(authProvider.getVaultKey());
+    } catch (err) {
+      reportStorageError(err);
     }
-    setTimeout(() => { isSyncingScroll.current = false; }, 50);
-  }, []);
+    setAuthConfigured(true);
+    setIdleLockMinutes(authProvider.getSettings().idleLockMinutes);
+    setAuthUser(user);
+  };
+
+  const handleUnlock = async (_: string | null, passphrase: string) => {
+    if (!authUser) return;
+    await authProvider.login(authUser.username, passphrase);
+    try {
+      await sessionStore.setEncryptionKey(authProvider.getVaultKey());
+    } catch (err) {
+      reportStorageError(err);
+    }
+    setIsLocked(false);
+  };
 
-  const startLiveMode = async () => { setIsLiveMode(true); };
-  const stopLiveMode = () => { setIsLiveMode(false); };
+  const handleIdleLockChange = (minutes: number) => {
+    authProvider.updateSettings({ idleLockMinutes: minutes });
+    setIdleLockMinutes(minutes);
+  };
+
+  const handleLogout = () => {
+    if (isLiveMode) stopLiveMode();
+    if (status === TranscriptionStatus.RECORDING || status === TranscriptionStatus.PAUSED) stopRecording();
+    setIsVaultOpen(false);
+    setIsSigningOut(true);
+  };
+
+  // Runs once capture has stopped: the last slices of audio arrive after the stop and, like the
+  // session itself, must be stored before the key and the owner are dropped
+  useEffect(() => {
+    if (!isSigningOut) return;
+    (async () => {
+      await Promise.all([recordedAudioSettled(), offlineAudioSettled()]);
+      // A locked vault was saved when it locked and can no longer be written
+      if (!isLocked) await saveCurrentToStorage();
+      await finishLogout();
+    })();
+  }, [isSigningOut]);
+
+  const finishLogout = async () => {
+    setSessions([]);
+    setActiveSessionId(null);
+    setSegments([]); setContextDesc(''); setReferenceFiles([]);
+    setSpeakerNames({}); setLiveSpeaker(undefined); setGlossary([]);
+    resetTimer(0);
+    authProvider.logout();
+    await sessionStore.setEncryptionKey(null);
+    sessionStore.setOwner(null);
+    setIsLocked(false);
+    setIsSigningOut(false);
+    setAuthUser(null);
+    setAskUsername(await authProvider.hasMultipleUsers());
+  };
+
+  const pendingGaps = offlineGaps.filter(g => sessions.some(s => s.id === g.sessionId));
+  const failedCount = pendingGaps.filter(g => failedGapIds.includes(g.id)).length;
 
   const activeSessionName = sessions.find(s => s.id === activeSessionId)?.name || "Default Folder";
 
-  if (!isAuthenticated) {
-    return (
-      <div className="h-[100dvh] w-full flex items-center justify-center bg-slate-900 overflow-hidden relative">
-        <div className="bg-slate-800/40 backdrop-blur-2xl p-8 rounded-[48px] w-full max-w-md mx-4 relative z-10 border border-slate-700">
-          <div className="flex flex-col items-center mb-10">
-            <div className="w-16 h-16 bg-blue-600 rounded-3xl flex items-center justify-center mb-8 shadow-2xl shadow-blue-500/30"><Lock className="w-8 h-8 text-white" /></div>
-            <h1 className="text-2xl font-black text-white uppercase tracking-tighter">HIEUAI <span className="text-blue-500">TRANSLATE</span></h1>
-          </div>
-          <form onSubmit={(e) => { e.preventDefault(); if (VALID_PASSWORDS.includes(passwordInput)) { setIsAuthenticated(true); sessionStorage.setItem(AUTH_KEY, 'true'); } }} className="space-y-6">
-            <input type="password" placeholder="Passphrase..." value={passwordInput} onChange={(e) => setPasswordInput(e.target.value)} className="w-full bg-slate-900/60 border border-slate-600 py-4 px-6 rounded-2xl text-white outline-none focus:border-blue-500 font-bold" autoFocus />
-            <button type="submit" className="w-full bg-blue-600 hover:bg-blue-700 text-white font-black py-4 rounded-2xl uppercase text-sm">Access</button>
-          </form>
-        </div>
-      </div>
-    );
+  if (authConfigured === null) return null;
+
+  if (!authUser) {
+    return <AuthScreen key="signin" mode={authConfigured ? 'login' : 'setup'} askUsername={askUsername} onSubmit={handleAuthSubmit} />;
+  }
+
+  // Locking swaps the whole workspace out; interpretation already in flight finishes underneath
+  if (isLocked) {
+    return <AuthScreen key="unlock" mode="unlock" lockedUsername={authUser.username} notice={captureStoppedByLock ? 'Capture was paused when the app locked. Resume it after unlocking.' : undefined} onSubmit={handleUnlock} onSignOut={handleLogout} />;
   }
 
   return (
@@ -415,8 +1082,63 @@ ${translatedText}
         onSelect={handleSelectSession}
         onDelete={handleDeleteSession}
         onNew={createNewSession}
+        onExport={exportSessionBundle}
+        onImport={importSessionBundle}
+        onSearch={searchSessions}
+        onOpenMatch={handleOpenMatch}
+        onLoadAudio={loadSessionAudio}
+        onRetranscribe={retranscribeSession}
+        storageUsage={storageUsage}
+        storageWarning={storageWarning}
       />
 
+      <AiSettings isOpen={isAiSettingsOpen} onClose={() => setIsAiSettingsOpen(false)} onSaved={() => { setAiConfigured(isEveryRoleConfigured()); setAiError(null); }} />
+
+      {isGlossaryOpen && (
+        <GlossaryDialog
+          glossary={glossary}
+          onChange={setGlossary}
+          sessions={sessions.filter(s => s.id !== activeSessionId)}
+          onLoadGlossary={loadSessionGlossary}
+          onExportCsv={exportGlossary}
+          onClose={() => setIsGlossaryOpen(false)}
+        />
+      )}
+
+      {pendingImport && (
+        <ImportConflictDialog
+          conflicts={pendingImport.filter(e => sessions.some(s => s.id === e.meta.id))}
+          existing={sessions}
+          newCount={pendingImport.filter(e => !sessions.some(s => s.id === e.meta.id)).length}
+          onConfirm={(resolutions) => applyImport(pendingImport, resolutions)}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+
+      {storageWarning && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 md:px-8 py-2 flex items-center justify-between gap-3 shrink-0 z-40">
+          <div className="flex items-center gap-2 text-amber-800 text-xs font-bold min-w-0">
+            <AlertTriangle className="w-4 h-4 shrink-0" /> <span className="truncate">{storageWarning}</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={() => setIsVaultOpen(true)} className="px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-[10px] font-black uppercase tracking-widest">Open Vault</button>
+            <button onClick={() => setStorageWarning(null)} className="p-1.5 text-amber-600 hover:bg-amber-100 rounded-lg"><CloseIcon className="w-3.5 h-3.5" /></button>
+          </div>
+        </div>
+      )}
+
+      {serviceWorker.updateAvailable && (
+        <div className="bg-blue-50 border-b border-blue-200 px-4 md:px-8 py-2 flex items-center justify-between gap-3 shrink-0 z-40">
+          <div className="flex items-center gap-2 text-blue-800 text-xs font-bold min-w-0">
+            <RefreshCcw className="w-4 h-4 shrink-0" /> <span className="truncate">A new version of the app is ready.</span>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button onClick={handleApplyUpdate} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-[10px] font-black uppercase tracking-widest">Update</button>
+            <button onClick={serviceWorker.dismissUpdate} className="p-1.5 text-blue-600 hover:bg-blue-100 rounded-lg"><CloseIcon className="w-3.5 h-3.5" /></button>
+          </div>
+        </div>
+      )}
+
       <header className="bg-white border-b border-slate-200 px-4 md:px-8 py-3 md:py-4 flex items-center justify-between shrink-0 z-30 shadow-sm">
         <div className="flex items-center gap-4">
           <button 
@@ -441,32 +1163,116 @@ ${translatedText}
             <div className="hidden sm:flex items-center gap-3 bg-slate-50 border border-slate-200 px-5 py-2 rounded-xl font-mono text-xl font-black tabular-nums">
                 <Clock className={`w-4 h-4 ${isRecording ? 'text-red-500 animate-pulse' : 'text-slate-400'}`} /> {formatTime(elapsedTime)}
             </div>
-            <button onClick={exportSession} className="p-2.5 md:px-5 md:py-2.5 bg-slate-100 text-slate-600 hover:bg-slate-200 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all">
-                <Download className="w-4 h-4" />
-                <span className="hidden sm:inline">Export</span>
+            <div className="hidden md:block">
+                <LanguagePairPicker value={languagePair} onChange={setLanguagePair} disabled={isRecording || isLiveMode} />
+            </div>
+            <button
+                onClick={() => setIsGlossaryOpen(true)}
+                className="p-2.5 md:px-5 md:py-2.5 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all bg-slate-100 text-slate-600 hover:bg-slate-200"
+                title="Glossary"
+            >
+                <BookOpen className="w-4 h-4" />
+                <span className="hidden sm:inline">Glossary{glossary.length > 0 ? ` (${glossary.length})` : ''}</span>
             </button>
+            <SpeakerMenu
+                speakers={speakerIds}
+                names={speakerNames}
+                onRename={handleSpeakerRename}
+                currentSpeaker={liveSpeaker}
+                onSelectSpeaker={setLiveSpeaker}
+                onNewSpeaker={startNewSpeaker}
+            />
+            <ExportMenu onExport={exportSession} sourceLabel={sourceLang.label} targetLabel={targetLang.label} hasContent={segments.length > 0} isExporting={isExporting} />
             <button onClick={isLiveMode ? stopLiveMode : startLiveMode} className={`p-2.5 md:px-5 md:py-2.5 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all ${isLiveMode ? 'bg-red-500 text-white shadow-lg' : 'bg-slate-800 text-white hover:bg-black'}`}>
                 {isLiveMode ? 'Exit Live' : 'Intercom'}
             </button>
+            <button
+                onClick={() => setIsAiSettingsOpen(true)}
+                className="relative p-2.5 rounded-xl bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+                title={aiConfigured ? 'AI Settings' : 'AI connection not configured'}
+            >
+                <Settings2 className="w-4 h-4" />
+                {!aiConfigured && <span className="absolute -top-0.5 -right-0.5 w-2.5 h-2.5 bg-amber-500 rounded-full border-2 border-white" />}
+            </button>
+            <AccountMenu
+                user={authUser}
+                provider={authProvider}
+                idleLockMinutes={idleLockMinutes}
+                onIdleLockChange={handleIdleLockChange}
+                onLock={lockWorkspace}
+                onLogout={handleLogout}
+            />
         </div>
       </header>
 
+      {/* The header has no room for the picker on small screens, so it gets its own row */}
+      <div className="md:hidden bg-white border-b border-slate-200 px-4 py-2 flex justify-center shrink-0 z-20">
+          <LanguagePairPicker value={languagePair} onChange={setLanguagePair} disabled={isRecording || isLiveMode} />
+      </div>
+
       {isLiveMode ? (
-          <div className="flex-1 bg-slate-900 p-6 overflow-y-auto">
-              {liveTranscription.map((t, i) => (
-                  <div key={i} className="mb-6 animate-in slide-in-from-bottom-4"><p className="text-blue-300 text-[10px] font-black uppercase mb-1">Input</p><p className="text-white text-lg bg-white/5 p-4 rounded-2xl">{t.user}</p><p className="text-emerald-400 text-[10px] font-black uppercase mt-2 mb-1 text-right">Output</p><p className="text-emerald-50 text-lg bg-emerald-500/10 p-4 rounded-2xl text-right italic">{t.ai}</p></div>
-              ))}
+          <div className="flex-1 flex flex-col bg-slate-900 min-h-0">
+              <div className="px-6 py-3 border-b border-white/5 flex items-center justify-between shrink-0">
+                  <div className="flex items-center gap-2">
+                      {isListening ? <Mic className={`w-4 h-4 ${isSpeaking ? 'text-red-400 animate-pulse' : 'text-blue-400'}`} /> : <MicOff className="w-4 h-4 text-slate-500" />}
+                      <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">{isListening ? (isSpeaking ? 'Hearing Speaker...' : `Listening (${sourceLang.label} ⇄ ${targetLang.label})`) : 'Microphone Off'}</span>
+                  </div>
+                  {pendingLiveTurns > 0 && (
+                      <div className="flex items-center gap-2 text-emerald-300">
+                          <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                          <span className="text-[10px] font-black uppercase tracking-widest">Interpreting {pendingLiveTurns > 1 ? `(${pendingLiveTurns})` : ''}</span>
+                      </div>
+                  )}
+              </div>
+              {(intercomError || aiError) && (
+                  <div className="mx-6 mt-4 flex items-center gap-2 px-4 py-2 bg-red-500/10 border border-red-500/20 rounded-xl text-red-300 text-xs font-bold shrink-0">
+                      <AlertTriangle className="w-4 h-4 shrink-0" /> {intercomError || aiError}
+                  </div>
+              )}
+              <div className="flex-1 p-6 overflow-y-auto custom-scrollbar">
+                  {liveTranscription.length === 0 && (
+                      <div className="h-full flex items-center justify-center text-slate-600 text-[10px] font-black uppercase tracking-widest select-none">Speak in either language, then pause to hear the interpretation.</div>
+                  )}
+                  {liveTranscription.map((t, i) => (
+                      <div key={i} className="mb-6 animate-in slide-in-from-bottom-4"><p className="text-blue-300 text-[10px] font-black uppercase mb-1">Input</p><p className="text-white text-lg bg-white/5 p-4 rounded-2xl">{t.user}</p><p className="text-emerald-400 text-[10px] font-black uppercase mt-2 mb-1 text-right">Output</p><p className="text-emerald-50 text-lg bg-emerald-500/10 p-4 rounded-2xl text-right italic">{t.ai}</p></div>
+                  ))}
+              </div>
           </div>
       ) : (
           <>
             <ContextPanel 
                 initialDescription={contextDesc}
-                initialFileName={contextFileName}
-                initialFileContent={fileContent}
+                initialFiles={referenceFiles}
                 onContextChange={handleContextChange} 
             />
             
-            {(isBatchMode || isRefining || isTranslating) && (
+            {recorderError && isRecording && (
+                <div className="bg-amber-50 border-b border-amber-200 px-4 md:px-8 py-2 flex items-center gap-2 text-amber-800 text-xs font-bold shrink-0 z-20">
+                    <MicOff className="w-4 h-4 shrink-0" /> <span className="truncate">{recorderError}</span>
+                </div>
+            )}
+
+            {((isRecording && !isOnline) || pendingGaps.length > 0) && (
+                <div className="bg-amber-50 border-b border-amber-200 px-4 md:px-8 py-2 flex items-center justify-between gap-3 shrink-0 z-20">
+                    <div className="flex items-center gap-2 text-amber-800 text-xs font-bold min-w-0">
+                        {isOnline ? <Loader2 className="w-4 h-4 shrink-0 animate-spin" /> : <WifiOff className="w-4 h-4 shrink-0" />}
+                        <span className="truncate">
+                            {bufferError && !isOnline
+                                ? bufferError
+                                : !isOnline
+                                    ? 'Offline: recording audio locally. It will be transcribed and merged when the connection returns.'
+                                    : failedCount > 0
+                                        ? `${failedCount} offline recording${failedCount > 1 ? 's' : ''} could not be transcribed.`
+                                        : `Connection restored: transcribing ${pendingGaps.length} offline recording${pendingGaps.length > 1 ? 's' : ''}...`}
+                        </span>
+                    </div>
+                    {isOnline && failedCount > 0 && (
+                        <button onClick={() => setFailedGapIds([])} className="shrink-0 px-3 py-1.5 bg-amber-600 hover:bg-amber-700 text-white rounded-lg text-[10px] font-black uppercase tracking-widest">Retry</button>
+                    )}
+                </div>
+            )}
+
+            {(isBatchMode || isRefining || isTranslating || batchQueue.isActive) && (
                 <div className="bg-slate-900 text-white px-8 py-2 flex items-center justify-center gap-6 shadow-xl z-20 overflow-hidden">
                     <div className="flex items-center gap-2">
                         <Activity className={`w-3.5 h-3.5 ${isRecording ? 'text-blue-400' : 'text-slate-500'}`} />
@@ -480,6 +1286,12 @@ ${translatedText}
                               <span className="text-[9px] font-black uppercase text-purple-200">High Throughput Mode</span>
                           </div>
                         )}
+                        {batchQueue.isActive && (
+                          <div className="flex items-center gap-2">
+                              <FileAudio className="w-3 h-3 text-amber-400 animate-pulse" />
+                              <span className="text-[9px] font-black uppercase text-amber-200">Transcribing Audio</span>
+                          </div>
+                        )}
                         <div className="flex items-center gap-2">
                             <Wand2 className={`w-3 h-3 ${isRefining ? 'text-blue-400 animate-spin' : 'text-slate-600'}`} />
                             <span className={`text-[9px] font-black uppercase ${isRefining ? 'text-blue-200' : 'text-slate-600'}`}>Refiner {isRefining ? 'Active' : 'Idle'}</span>
@@ -492,31 +1304,82 @@ ${translatedText}
                 </div>
             )}
 
+            <BatchQueuePanel
+                jobs={batchQueue.jobs}
+                onRetry={batchQueue.retry}
+                onRemove={batchQueue.remove}
+                onOpen={openBatchSession}
+                onClearFinished={batchQueue.clearFinished}
+            />
+
+            {showPlayer && (
+                <div className="px-4 md:px-8 pt-4 md:pt-6 -mb-2 md:-mb-4 shrink-0">
+                    <SessionPlayer ref={playerRef} takes={sessionAudio} onTimeChange={setPlaybackTime} />
+                </div>
+            )}
+
             <main className="flex-1 flex flex-col md:flex-row min-h-0 w-full p-4 md:p-8 gap-4 md:gap-8 overflow-hidden">
                 <TranscriptArea 
                     ref={englishRef} 
-                    title="Source (Original)" 
-                    text={text} 
+                    title={`Source (${sourceLang.name})`} 
+                    segments={segments} 
+                    field="source" 
                     interimText={interimText} 
-                    onChange={setText} 
+                    onSegmentChange={handleSourceEdit} 
+                    activeSegmentId={hoveredSegmentId || selectedSegmentId} 
+                    playingSegmentId={playingSegmentId} 
+                    onSegmentHover={setHoveredSegmentId} 
+                    onSegmentSelect={handleSegmentSelect} 
+                    showTimestamps={showTimestamps} 
+                    onToggleTimestamps={() => setShowTimestamps(!showTimestamps)} 
                     accentColor="blue" 
                     onSyncScroll={handleEnglishScroll} 
+                    speakerNames={speakerNames}
+                    speakers={speakerIds}
+                    onSpeakerChange={handleSpeakerChange}
                     badge={isRefining ? <span className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-[8px] font-black uppercase tracking-tighter animate-pulse">Refining</span> : null}
                 />
                 <TranscriptArea 
                     ref={vietnameseRef} 
-                    title="Interpretation (Archive)" 
-                    text={translatedText} 
+                    title={`Interpretation (${targetLang.name})`} 
+                    segments={segments} 
+                    field="translation" 
                     interimText={isTranslating ? "Processing Interpretation..." : ""} 
-                    onChange={setTranslatedText} 
+                    onSegmentChange={handleTranslationEdit} 
+                    activeSegmentId={hoveredSegmentId || selectedSegmentId} 
+                    playingSegmentId={playingSegmentId} 
+                    onSegmentHover={setHoveredSegmentId} 
+                    onSegmentSelect={handleSegmentSelect} 
+                    showTimestamps={showTimestamps} 
+                    onToggleTimestamps={() => setShowTimestamps(!showTimestamps)} 
                     accentColor="emerald" 
-                    enableTTS={true} 
+                    enableTTS={reader.isSupported} 
                     isTTSActive={ttsEnabled} 
                     onToggleTTS={() => setTtsEnabled(!ttsEnabled)} 
+                    ttsLanguageName={targetLang.name} 
+                    ttsSettings={
+                        <VoiceSettings
+                            voices={reader.voices}
+                            voiceURI={reader.voiceURI}
+                            onVoiceChange={reader.setVoiceURI}
+                            rate={reader.rate}
+                            onRateChange={reader.setRate}
+                            pauseWhileCapturing={reader.pauseWhileCapturing}
+                            onPauseWhileCapturingChange={reader.setPauseWhileCapturing}
+                            languageName={targetLang.name}
+                            queueLength={reader.queueLength}
+                        />
+                    }
                     onSyncScroll={handleVietnameseScroll} 
+                    speakerNames={speakerNames}
+                    segmentWarnings={glossaryWarnings}
                     badge={isBatchMode ? <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-[8px] font-black uppercase tracking-tighter">Pro Engine</span> : null} 
                 />
             </main>
+
+            {selectedReferences.length > 0 && (
+                <ReferencePassages passages={selectedReferences} onClose={() => setSelectedSegmentId(null)} />
+            )}
             
             <footer className="bg-white border-t border-slate-200 p-4 shrink-0 z-30">
                 <div className="max-w-4xl mx-auto flex items-center justify-between">
@@ -530,7 +1393,16 @@ ${translatedText}
                             {isBatchMode ? 'Batch Translation On' : 'Real-time Mode'}
                           </button>
                         </div>
-                        <NetworkStatus />
+                        <button
+                          onClick={() => batchFileInputRef.current?.click()}
+                          className="px-4 py-2 rounded-xl text-[10px] font-black uppercase border bg-white border-slate-200 text-slate-500 hover:bg-slate-50 transition-all flex items-center gap-2 disabled:opacity-40"
+                          title="Transcribe audio or video files, each into a new session"
+                        >
+                          <Upload className="w-3.5 h-3.5" />
+                          Audio Files
+                        </button>
+                        <input ref={batchFileInputRef} type="file" accept="audio/*,video/*" multiple className="hidden" onChange={handleAudioBatchUpload} />
+                        <NetworkStatus isOnline={isOnline} ping={ping} isBuffering={isBuffering} />
                     </div>
                     
                     <Controls 
@@ -538,12 +1410,13 @@ ${translatedText}
                       onStart={startRecording} 
                       onPause={pauseRecording} 
                       onStop={stopRecording} 
-                      onClear={() => { clearTranscript(); refinedRef.current = 0; processedRef.current = 0; }} 
-                      onSave={() => { saveCurrentToStorage(); alert("Session Saved to HIEUAI Storage."); }} 
+                      onClear={() => { clearTranscript(); setSelectedSegmentId(null); }} 
+                      onSave={async () => { if (await saveCurrentToStorage()) alert("Session Saved to HIEUAI Storage."); }} 
                       onOptimize={() => performTranslation(true)} 
                       isOptimizing={isTranslating} 
                       hasText={text.length > 0} 
                       isBatchMode={isBatchMode}
+                      onNewSpeaker={startNewSpeaker}
                     />
                     
                     <div className="hidden lg:flex flex-col items-end gap-1">
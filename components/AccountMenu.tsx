@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { UserCircle2, Lock, LogOut, KeyRound, UserPlus, Trash2, Timer } from 'lucide-react';
+import { AuthProvider, AuthUser } from '../services/auth';
+
+interface AccountMenuProps {
+  user: AuthUser;
+  provider: AuthProvider;
+  idleLockMinutes: number;
+  onIdleLockChange: (minutes: number) => void;
+  onLock: () => void;
+  onLogout: () => void;
+}
+
+const IDLE_OPTIONS = [1, 5, 10, 15, 30, 60, 0];
+
+export const AccountMenu: React.FC<AccountMenuProps> = memo(({ user, provider, idleLockMinutes, onIdleLockChange, onLock, onLogout }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [panel, setPanel] = useState<'none' | 'passphrase' | 'users'>('none');
+  const [users, setUsers] = useState<AuthUser[]>([]);
+  const [fieldA, setFieldA] = useState('');
+  const [fieldB, setFieldB] = useState('');
+  const [message, setMessage] = useState<{ text: string; ok: boolean } | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handle = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handle);
+    return () => document.removeEventListener('mousedown', handle);
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (panel === 'users') provider.listUsers().then(setUsers);
+  }, [panel, provider]);
+
+  const openPanel = (next: typeof panel) => {
+    setPanel(panel === next ? 'none' : next);
+    setFieldA(''); setFieldB(''); setMessage(null);
+  };
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setIsBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      setMessage({ text: success, ok: true });
+      setFieldA(''); setFieldB('');
+    } catch (err: any) {
+      setMessage({ text: err?.message || 'Something went wrong.', ok: false });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const changePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => provider.changePassphrase(user.id, fieldA, fieldB), 'Passphrase updated.');
+  };
+
+  const addUser = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await provider.addUser(fieldA, fieldB);
+      setUsers(await provider.listUsers());
+    }, 'Account created.');
+  };
+
+  const removeUser = (target: AuthUser) => {
+    if (!confirm(`Remove the account "${target.username}"?`)) return;
+    run(async () => {
+      await provider.removeUser(target.id);
+      setUsers(await provider.listUsers());
+    }, 'Account removed.');
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-lg px-2.5 py-1.5 text-xs font-medium text-slate-700 outline-none focus:border-blue-500";
+  const rowClass = "w-full flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-50 text-left text-xs font-black uppercase tracking-tight text-slate-700 transition-colors";
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className={`p-2.5 rounded-xl transition-all ${isOpen ? 'bg-slate-200 text-slate-800' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`} title={user.username}>
+        <UserCircle2 className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-50 animate-in fade-in slide-in-from-top-2">
+          <div className="px-3 py-2 border-b border-slate-100 mb-1">
+            <p className="text-sm font-black text-slate-800 truncate">{user.username}</p>
+            <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">{user.role === 'admin' ? 'Administrator' : 'Member'}</p>
+          </div>
+
+          <button onClick={() => { setIsOpen(false); onLock(); }} className={rowClass}>
+            <Lock className="w-4 h-4 text-slate-500" /> Lock Now
+          </button>
+
+          <label className="flex items-center justify-between gap-3 px-3 py-2">
+            <span className="flex items-center gap-3 text-xs font-black uppercase tracking-tight text-slate-700"><Timer className="w-4 h-4 text-slate-500" /> Auto-Lock</span>
+            <select
+              value={idleLockMinutes}
+              onChange={(e) => onIdleLockChange(parseInt(e.target.value, 10))}
+              className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-[11px] font-bold text-slate-700 outline-none"
+            >
+              {IDLE_OPTIONS.map(m => <option key={m} value={m}>{m === 0 ? 'Never' : `${m} min`}</option>)}
+            </select>
+          </label>
+
+          <button onClick={() => openPanel('passphrase')} className={rowClass}>
+            <KeyRound className="w-4 h-4 text-slate-500" /> Change Passphrase
+          </button>
+          {panel === 'passphrase' && (
+            <form onSubmit={changePassphrase} className="px-3 pb-2 space-y-2">
+              <input type="password" placeholder="Current passphrase" value={fieldA} onChange={(e) => setFieldA(e.target.value)} className={inputClass} autoComplete="current-password" />
+              <input type="password" placeholder="New passphrase" value={fieldB} onChange={(e) => setFieldB(e.target.value)} className={inputClass} autoComplete="new-password" />
+              <button type="submit" disabled={isBusy || !fieldA || !fieldB} className="w-full py-1.5 bg-blue-600 text-white rounded-lg text-[10px] font-black uppercase disabled:opacity-40">Update</button>
+            </form>
+          )}
+
+          {user.role === 'admin' && (
+            <>
+              <button onClick={() => openPanel('users')} className={rowClass}>
+                <UserPlus className="w-4 h-4 text-slate-500" /> Accounts
+              </button>
+              {panel === 'users' && (
+                <div className="px-3 pb-2 space-y-2">
+                  {users.map(u => (
+                    <div key={u.id} className="flex items-center justify-between text-xs">
+                      <span className="font-bold text-slate-700 truncate">{u.username} <span className="text-[9px] text-slate-400 uppercase">{u.role}</span></span>
+                      {u.id !== user.id && (
+                        <button onClick={() => removeUser(u)} className="p-1 text-slate-300 hover:text-red-500"><Trash2 className="w-3.5 h-3.5" /></button>
+                      )}
+                    </div>
+                  ))}
+                  <form onSubmit={addUser} className="space-y-2 pt-2 border-t border-slate-100">
+                    <input type="text" placeholder="New username" value={fieldA} onChange={(e) => setFieldA(e.target.value)} className={inputClass} autoComplete="off" />
+                    <input type="password" placeholder="Initial passphrase" value={fieldB} onChange={(e) => setFieldB(e.target.value)} className={inputClass} autoComplete="new-password" />
+                    <button type="submit" disabled={isBusy || !fieldA || !fieldB} className="w-full py-1.5 bg-blue-600 text-white rounded-lg text-[10px] font-black uppercase disabled:opacity-40">Add Account</button>
+                  </form>
+                </div>
+              )}
+            </>
+          )}
+
+          {message && (
+            <p className={`px-3 py-1 text-[10px] font-bold ${message.ok ? 'text-emerald-600' : 'text-red-500'}`}>
+              {message.text}
+            </p>
+          )}
+
+          <div className="mt-1 pt-1 border-t border-slate-100">
+            <button onClick={() => { setIsOpen(false); onLogout(); }} className={`${rowClass} text-red-600`}>
+              <LogOut className="w-4 h-4" /> Log Out
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+AccountMenu.displayName = 'AccountMenu';
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, memo } from 'react';
+import { Settings2, X, KeyRound, Server, Loader2, CheckCircle2, AlertTriangle, Cpu } from 'lucide-react';
+import { AiConnectionSettings, loadAiSettings, saveAiSettings, hasBundledApiKey, testAiConnection } from '../services/genai';
+import {
+  AiRole, ProviderId, ProviderSettings, ROLE_LABELS, MODEL_SUGGESTIONS,
+  loadProviderSettings, saveProviderSettings, listOpenAiCompatibleModels
+} from '../services/providers';
+
+interface AiSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: (settings: AiConnectionSettings, providers: ProviderSettings) => void;
+}
+
+type TestState = { status: 'idle' | 'running' | 'ok' | 'error'; message?: string };
+
+const TestResult: React.FC<{ state: TestState }> = ({ state }) => state.status === 'idle' ? null : (
+  <div className={`flex items-start gap-2 px-3 py-2 rounded-xl text-xs font-bold ${state.status === 'error' ? 'bg-red-50 text-red-600' : state.status === 'ok' ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-50 text-slate-500'}`}>
+    {state.status === 'running' && <Loader2 className="w-4 h-4 shrink-0 animate-spin" />}
+    {state.status === 'ok' && <CheckCircle2 className="w-4 h-4 shrink-0" />}
+    {state.status === 'error' && <AlertTriangle className="w-4 h-4 shrink-0" />}
+    <span className="break-all">{state.status === 'running' ? 'Testing connection...' : state.message}</span>
+  </div>
+);
+
+export const AiSettings: React.FC<AiSettingsProps> = memo(({ isOpen, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<AiConnectionSettings>(loadAiSettings);
+  const [providerDraft, setProviderDraft] = useState<ProviderSettings>(loadProviderSettings);
+  const [testState, setTestState] = useState<TestState>({ status: 'idle' });
+  const [openAiTest, setOpenAiTest] = useState<TestState>({ status: 'idle' });
+  const [serverModels, setServerModels] = useState<string[]>([]);
+
+  // Start from the stored values every time the panel opens
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(loadAiSettings());
+      setProviderDraft(loadProviderSettings());
+      setTestState({ status: 'idle' });
+      setOpenAiTest({ status: 'idle' });
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<AiConnectionSettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setTestState({ status: 'idle' });
+  };
+
+  const runTest = async () => {
+    setTestState({ status: 'running' });
+    try {
+      const reply = await testAiConnection(draft);
+      setTestState({ status: 'ok', message: reply ? `Model replied: "${reply.slice(0, 40)}"` : 'Connected.' });
+    } catch (err: any) {
+      setTestState({ status: 'error', message: err?.message || 'Connection failed.' });
+    }
+  };
+
+  const updateRole = (role: AiRole, provider: ProviderId, model: string) =>
+    setProviderDraft(prev => ({ ...prev, roles: { ...prev.roles, [role]: { provider, model } } }));
+
+  const runOpenAiTest = async () => {
+    setOpenAiTest({ status: 'running' });
+    try {
+      const models = await listOpenAiCompatibleModels(providerDraft.openai);
+      setServerModels(models);
+      setOpenAiTest({ status: 'ok', message: models.length ? `${models.length} models available.` : 'Connected.' });
+    } catch (err: any) {
+      setOpenAiTest({ status: 'error', message: err?.message || 'Connection failed.' });
+    }
+  };
+
+  const usesOpenAi = (Object.keys(ROLE_LABELS) as AiRole[]).some(role => providerDraft.roles[role].provider === 'openai');
+
+  const save = () => {
+    saveAiSettings(draft);
+    saveProviderSettings(providerDraft);
+    onSaved?.(draft, providerDraft);
+    onClose();
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2.5 text-sm font-medium text-slate-700 outline-none focus:border-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-lg max-h-[90vh] rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between bg-slate-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-slate-800 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <Settings2 className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">AI Settings</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">Providers, models and connections</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-6">
+          <section className="space-y-3">
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5"><Cpu className="w-3.5 h-3.5" /> Models</p>
+            {(Object.keys(ROLE_LABELS) as AiRole[]).map(role => {
+              const { provider, model } = providerDraft.roles[role];
+              const listId = `models-${role}`;
+              return (
+                <div key={role} className="grid grid-cols-[1fr_auto] gap-2 items-end">
+                  <div className="space-y-1 min-w-0">
+                    <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">{ROLE_LABELS[role]}</label>
+                    <input list={listId} value={model} onChange={(e) => updateRole(role, provider, e.target.value)} className={inputClass} />
+                    <datalist id={listId}>
+                      {(provider === 'openai' && serverModels.length ? serverModels : MODEL_SUGGESTIONS[provider]).map(m => <option key={m} value={m} />)}
+                    </datalist>
+                  </div>
+                  <select
+                    value={provider}
+                    onChange={(e) => {
+                      const next = e.target.value as ProviderId;
+                      updateRole(role, next, next === provider ? model : MODEL_SUGGESTIONS[next][0]);
+                    }}
+                    className="bg-slate-50 border border-slate-200 rounded-xl px-2 py-2.5 text-xs font-bold text-slate-700 outline-none"
+                  >
+                    <option value="gemini">Gemini</option>
+                    <option value="openai">OpenAI-compatible</option>
+                  </select>
+                </div>
+              );
+            })}
+          </section>
+
+          {usesOpenAi && (
+            <section className="space-y-3">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5"><Server className="w-3.5 h-3.5" /> OpenAI-compatible Server</p>
+              <div className="space-y-1.5">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Base URL</label>
+                <input type="url" value={providerDraft.openai.baseUrl} onChange={(e) => setProviderDraft(prev => ({ ...prev, openai: { ...prev.openai, baseUrl: e.target.value } }))} placeholder="http://localhost:11434/v1" className={inputClass} />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">API Key (optional)</label>
+                <input type="password" value={providerDraft.openai.apiKey} onChange={(e) => setProviderDraft(prev => ({ ...prev, openai: { ...prev.openai, apiKey: e.target.value } }))} className={inputClass} autoComplete="off" />
+              </div>
+              <button onClick={runOpenAiTest} disabled={openAiTest.status === 'running'} className="bg-slate-100 hover:bg-slate-200 text-slate-600 px-4 py-2 rounded-xl font-bold text-[10px] uppercase tracking-widest disabled:opacity-40">Test Server</button>
+              <TestResult state={openAiTest} />
+            </section>
+          )}
+
+          <section className="space-y-3">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-500 flex items-center gap-1.5"><KeyRound className="w-3.5 h-3.5" /> Gemini Connection</p>
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { mode: 'direct', label: 'Own API Key', icon: <KeyRound className="w-4 h-4" /> },
+              { mode: 'proxy', label: 'Proxy Server', icon: <Server className="w-4 h-4" /> },
+            ] as const).map(({ mode, label, icon }) => (
+              <button
+                key={mode}
+                onClick={() => update({ mode })}
+                className={`flex items-center justify-center gap-2 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${draft.mode === mode ? 'bg-blue-600 text-white shadow-lg shadow-blue-500/20' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+              >
+                {icon} {label}
+              </button>
+            ))}
+          </div>
+
+          {draft.mode === 'direct' ? (
+            <div className="space-y-1.5">
+              <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Gemini API Key</label>
+              <input type="password" value={draft.apiKey} onChange={(e) => update({ apiKey: e.target.value })} placeholder="AIza..." className={inputClass} autoComplete="off" />
+              <p className="text-[10px] text-slate-500 leading-snug">
+                Stored in this browser only and sent straight to Google.
+                {hasBundledApiKey() && !draft.apiKey && ' Leave empty to use the key built into this copy of the app.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-1.5">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Proxy URL</label>
+                <input type="url" value={draft.proxyUrl} onChange={(e) => update({ proxyUrl: e.target.value })} placeholder="http://localhost:8787" className={inputClass} />
+              </div>
+              <div className="space-y-1.5">
+                <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Access Token (optional)</label>
+                <input type="password" value={draft.proxyToken} onChange={(e) => update({ proxyToken: e.target.value })} className={inputClass} autoComplete="off" />
+              </div>
+              <p className="text-[10px] text-slate-500 leading-snug">
+                The proxy keeps the Gemini key on the server. Run <code className="bg-slate-100 px-1 rounded">npm run proxy</code> for a local one, or <code className="bg-slate-100 px-1 rounded">npm run proxy:stub</code> to test without a key.
+              </p>
+            </div>
+          )}
+
+          <TestResult state={testState} />
+          </section>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-between gap-2">
+          <button onClick={runTest} disabled={testState.status === 'running'} className="bg-slate-100 hover:bg-slate-200 text-slate-600 px-4 py-3 rounded-xl font-bold text-xs uppercase tracking-widest disabled:opacity-40">Test Gemini</button>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="bg-slate-100 text-slate-600 px-4 py-3 rounded-xl font-bold text-xs uppercase tracking-widest">Cancel</button>
+            <button onClick={save} className="bg-blue-600 text-white px-6 py-3 rounded-xl font-bold text-xs uppercase tracking-widest shadow-lg shadow-blue-500/20">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+AiSettings.displayName = 'AiSettings';
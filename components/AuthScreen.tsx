@@ -0,0 +1,90 @@
+import React, { useState, memo } from 'react';
+import { Lock, Loader2, KeyRound, LogOut } from 'lucide-react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/auth';
+
+interface AuthScreenProps {
+  mode: 'setup' | 'login' | 'unlock';
+  askUsername?: boolean;    // Multi-account sign-in
+  lockedUsername?: string;  // Shown on the idle lock screen
+  notice?: string;          // What happened to the workspace when it locked
+  onSubmit: (username: string | null, passphrase: string) => Promise<void>;
+  onSignOut?: () => void;   // Leave the lock screen as a different user
+}
+
+export const AuthScreen: React.FC<AuthScreenProps> = memo(({ mode, askUsername = false, lockedUsername, notice, onSubmit, onSignOut }) => {
+  const [username, setUsername] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const showUsername = mode === 'setup' || (mode === 'login' && askUsername);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'setup' && passphrase !== confirm) { setError('Passphrases do not match.'); return; }
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onSubmit(showUsername ? username : null, passphrase);
+    } catch (err: any) {
+      setError(err?.message || 'Sign-in failed.');
+      setPassphrase('');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const inputClass = "w-full bg-slate-900/60 border border-slate-600 py-4 px-6 rounded-2xl text-white outline-none focus:border-blue-500 font-bold";
+
+  return (
+    <div className="h-[100dvh] w-full flex items-center justify-center bg-slate-900 overflow-hidden relative">
+      <div className="bg-slate-800/40 backdrop-blur-2xl p-8 rounded-[48px] w-full max-w-md mx-4 relative z-10 border border-slate-700">
+        <div className="flex flex-col items-center mb-10">
+          <div className="w-16 h-16 bg-blue-600 rounded-3xl flex items-center justify-center mb-8 shadow-2xl shadow-blue-500/30">
+            {mode === 'setup' ? <KeyRound className="w-8 h-8 text-white" /> : <Lock className="w-8 h-8 text-white" />}
+          </div>
+          <h1 className="text-2xl font-black text-white uppercase tracking-tighter">HIEUAI <span className="text-blue-500">TRANSLATE</span></h1>
+          {mode === 'setup' && (
+            <p className="mt-3 text-[10px] text-slate-400 font-bold uppercase tracking-widest text-center">Create the administrator account for this device</p>
+          )}
+          {mode === 'unlock' && (
+            <p className="mt-3 text-[10px] text-slate-400 font-bold uppercase tracking-widest text-center">Locked · {lockedUsername}</p>
+          )}
+          {mode === 'unlock' && notice && (
+            <p className="mt-3 px-4 py-2 bg-amber-500/10 border border-amber-500/30 rounded-xl text-[10px] text-amber-300 font-bold uppercase tracking-widest text-center">{notice}</p>
+          )}
+        </div>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {showUsername && (
+            <input type="text" placeholder="Username..." value={username} onChange={(e) => setUsername(e.target.value)} className={inputClass} autoComplete="username" autoFocus />
+          )}
+          <input
+            type="password"
+            placeholder={mode === 'setup' ? `Passphrase (min. ${MIN_PASSPHRASE_LENGTH} characters)...` : 'Passphrase...'}
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className={inputClass}
+            autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+            autoFocus={!showUsername}
+          />
+          {mode === 'setup' && (
+            <input type="password" placeholder="Confirm passphrase..." value={confirm} onChange={(e) => setConfirm(e.target.value)} className={inputClass} autoComplete="new-password" />
+          )}
+          {error && <p className="text-red-400 text-xs font-bold text-center">{error}</p>}
+          <button type="submit" disabled={isBusy || !passphrase} className="w-full bg-blue-600 hover:bg-blue-700 text-white font-black py-4 rounded-2xl uppercase text-sm flex items-center justify-center gap-2 disabled:opacity-50">
+            {isBusy && <Loader2 className="w-4 h-4 animate-spin" />}
+            {mode === 'setup' ? 'Create & Enter' : mode === 'unlock' ? 'Unlock' : 'Access'}
+          </button>
+          {mode === 'unlock' && onSignOut && (
+            <button type="button" onClick={onSignOut} className="w-full text-slate-400 hover:text-white text-[10px] font-black uppercase tracking-widest flex items-center justify-center gap-2 py-2">
+              <LogOut className="w-3.5 h-3.5" /> Sign out
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+});
+
+AuthScreen.displayName = 'AuthScreen';
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { FileAudio, Loader2, CheckCircle2, AlertTriangle, RefreshCcw, X, ChevronDown, ChevronUp, FolderOpen } from 'lucide-react';
+import { BatchJob, completedSlices } from '../services/batchTranscription';
+
+interface BatchQueuePanelProps {
+  jobs: BatchJob[];
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+  onOpen: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const statusLabel = (job: BatchJob) => {
+  switch (job.status) {
+    case 'queued': return 'Queued';
+    case 'decoding': return 'Decoding Audio';
+    case 'transcribing': return `${completedSlices(job)} / ${job.slices.length} Chunks`;
+    case 'failed': return 'Failed';
+    case 'done': return 'Done';
+  }
+};
+
+// Per-file progress of background audio transcription
+export const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ jobs, onRetry, onRemove, onOpen, onClearFinished }) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  if (jobs.length === 0) return null;
+
+  const doneCount = jobs.filter(j => j.status === 'done').length;
+  const failedCount = jobs.filter(j => j.status === 'failed').length;
+
+  return (
+    <div className="bg-blue-50 border-b border-blue-100 px-8 py-2 text-blue-900">
+      <div className="flex items-center gap-3">
+        <FileAudio className="w-4 h-4 shrink-0" />
+        <span className="text-[10px] font-black uppercase tracking-widest">
+          Audio Queue: {doneCount} / {jobs.length} Done{failedCount > 0 ? ` · ${failedCount} Failed` : ''}
+        </span>
+        <div className="flex-1" />
+        {doneCount > 0 && (
+          <button onClick={onClearFinished} className="text-[10px] font-black uppercase tracking-widest text-blue-600 hover:text-blue-800">Clear Finished</button>
+        )}
+        <button onClick={() => setIsCollapsed(!isCollapsed)} className="p-1 hover:bg-white/60 rounded-lg" title={isCollapsed ? 'Show files' : 'Hide files'}>
+          {isCollapsed ? <ChevronDown className="w-4 h-4" /> : <ChevronUp className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {!isCollapsed && (
+        <ul className="mt-2 max-h-40 overflow-y-auto space-y-1.5">
+          {jobs.map(job => {
+            const progress = job.status === 'done' ? 1 : job.slices.length ? completedSlices(job) / job.slices.length : 0;
+            return (
+              <li key={job.id} className="flex items-center gap-3 text-xs font-bold">
+                {job.status === 'done' ? <CheckCircle2 className="w-3.5 h-3.5 shrink-0 text-emerald-600" />
+                  : job.status === 'failed' ? <AlertTriangle className="w-3.5 h-3.5 shrink-0 text-red-600" />
+                  : <Loader2 className={`w-3.5 h-3.5 shrink-0 ${job.status === 'queued' ? 'text-slate-400' : 'animate-spin'}`} />}
+                <span className="truncate w-1/4 shrink-0" title={job.fileName}>{job.fileName}</span>
+                <div className="flex-1 h-1.5 bg-white rounded-full overflow-hidden">
+                  <div
+                    className={`h-full transition-all ${job.status === 'failed' ? 'bg-red-500' : job.status === 'done' ? 'bg-emerald-500' : 'bg-blue-600'}`}
+                    style={{ width: `${progress * 100}%` }}
+                  />
+                </div>
+                <span className={`shrink-0 w-28 text-right text-[10px] font-black uppercase tracking-widest ${job.status === 'failed' ? 'text-red-600' : ''}`}>{statusLabel(job)}</span>
+                {job.status === 'failed' && job.error && (
+                  <span className="truncate max-w-[25%] text-red-600 font-medium" title={job.error}>{job.error}</span>
+                )}
+                {job.status === 'failed' && (
+                  <button onClick={() => onRetry(job.id)} className="shrink-0 p-1 text-red-600 hover:bg-white/60 rounded-lg" title="Retry"><RefreshCcw className="w-3.5 h-3.5" /></button>
+                )}
+                {job.status === 'done' && (
+                  <button onClick={() => onOpen(job.id)} className="shrink-0 p-1 hover:bg-white/60 rounded-lg" title="Open session"><FolderOpen className="w-3.5 h-3.5" /></button>
+                )}
+                <button onClick={() => onRemove(job.id)} className="shrink-0 p-1 hover:bg-white/60 rounded-lg" title={job.status === 'done' ? 'Dismiss' : 'Cancel'}><X className="w-3.5 h-3.5" /></button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
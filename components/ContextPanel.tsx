@@ -1,39 +1,34 @@
-
 import React, { useState, useRef, useEffect } from 'react';
-import { FileText, Upload, X, ChevronDown, ChevronUp, Info, FileUp, Save, CheckCircle, Loader2, FileType } from 'lucide-react';
-import * as mammoth from 'mammoth';
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Handle ESM default export interop for pdfjs-dist
-const pdfJs = (pdfjsLib as any).default || pdfjsLib;
-
-// Configure PDF Worker
-if (pdfJs.GlobalWorkerOptions) {
-  pdfJs.GlobalWorkerOptions.workerSrc = 'https://esm.sh/pdfjs-dist@3.11.174/build/pdf.worker.min.js';
-}
+import { FileText, Upload, X, ChevronDown, ChevronUp, Info, Save, CheckCircle, Loader2, FileType, FileSpreadsheet, Presentation, FileCode, BookOpen } from 'lucide-react';
+import { ReferenceFile } from '../types';
+import { generateId } from '../utils/segments';
+import { extractDocumentText, documentKind, DocumentReadError, REFERENCE_FILE_ACCEPT } from '../services/documentText';
 
 interface ContextPanelProps {
   initialDescription?: string;
-  initialFileName?: string;
-  initialFileContent?: string;
-  onContextChange: (description: string, fileContent: string, fileName: string) => void;
+  initialFiles?: ReferenceFile[];
+  onContextChange: (description: string, files: ReferenceFile[]) => void;
 }
 
+interface ParsingFile {
+  name: string;
+  done: number;
+  total: number; // 0 until the reader knows how many pages, slides or sheets there are
+}
+
+const NO_FILES: ReferenceFile[] = [];
+
 export const ContextPanel: React.FC<ContextPanelProps> = ({ 
     initialDescription = '', 
-    initialFileName = '', 
-    initialFileContent = '', 
+    initialFiles = NO_FILES, 
     onContextChange 
 }) => {
   const [isOpen, setIsOpen] = useState(false);
   
   // Local state for editing
   const [description, setDescription] = useState(initialDescription);
-  const [fileName, setFileName] = useState<string | null>(initialFileName || null);
-  const [fileContent, setFileContent] = useState(initialFileContent);
-  const [fileType, setFileType] = useState<string>('');
-  
-  const [isProcessing, setIsProcessing] = useState(false);
+  const [files, setFiles] = useState<ReferenceFile[]>(initialFiles);
+  const [parsing, setParsing] = useState<ParsingFile[]>([]);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saved'>('idle');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -41,104 +36,65 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
   // Sync with props when session changes
   useEffect(() => {
     setDescription(initialDescription);
-    setFileName(initialFileName || null);
-    setFileContent(initialFileContent);
-    // Infer file type from name
-    if (initialFileName) {
-        const ext = initialFileName.split('.').pop()?.toLowerCase() || '';
-        setFileType(ext);
-    } else {
-        setFileType('');
-    }
-  }, [initialDescription, initialFileName, initialFileContent]);
+    setFiles(initialFiles);
+  }, [initialDescription, initialFiles]);
 
   const handleDescriptionChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setDescription(e.target.value);
     setSaveStatus('idle');
   };
 
-  const extractTextFromPdf = async (file: File): Promise<string> => {
-    try {
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await pdfJs.getDocument({ data: arrayBuffer }).promise;
-        let fullText = '';
-        const maxPages = Math.min(pdf.numPages, 10); // Reference up to 10 pages
-        
-        for (let i = 1; i <= maxPages; i++) {
-            const page = await pdf.getPage(i);
-            const textContent = await page.getTextContent();
-            const pageText = textContent.items.map((item: any) => item.str).join(' ');
-            fullText += pageText + '\n';
-        }
-        return fullText;
-    } catch (e) {
-        console.error("PDF Parse Error", e);
-        throw new Error("Failed to parse PDF");
-    }
-  };
-
+  // Files are read one after another; a later file with the same name replaces the earlier one
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+    const selected: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (selected.length === 0) return;
 
-    if (file.size > 10 * 1024 * 1024) { 
-        alert("File is too large. Please upload a file under 10MB.");
-        return;
-    }
-
-    setIsProcessing(true);
     setSaveStatus('idle');
-
-    try {
-        let text = '';
-        const name = file.name.toLowerCase();
-
-        if (name.endsWith('.docx')) {
-            const arrayBuffer = await file.arrayBuffer();
-            const result = await mammoth.extractRawText({ arrayBuffer });
-            text = result.value;
-            setFileType('docx');
-        } else if (name.endsWith('.pdf')) {
-            text = await extractTextFromPdf(file);
-            setFileType('pdf');
-        } else {
-            text = await file.text();
-            setFileType('txt');
+    setParsing(selected.map(file => ({ name: file.name, done: 0, total: 0 })));
+    const failures: string[] = [];
+
+    for (const file of selected) {
+        try {
+            const content = await extractDocumentText(file, (done, total) =>
+                setParsing(prev => prev.map(p => p.name === file.name ? { ...p, done, total } : p)));
+            const added: ReferenceFile = { id: generateId(), name: file.name, content };
+            setFiles(prev => [...prev.filter(f => f.name !== file.name), added]);
+        } catch (err) {
+            console.error("Error reading file", err);
+            failures.push(`${file.name}: ${err instanceof DocumentReadError ? err.message : 'Failed to read file.'}`);
         }
-
-        setFileName(file.name);
-        setFileContent(text);
-    } catch (err) {
-        console.error("Error reading file", err);
-        alert("Failed to read file.");
-        setFileName(null);
-        setFileContent('');
-    } finally {
-        setIsProcessing(false);
+        setParsing(prev => prev.filter(p => p.name !== file.name));
     }
+
+    if (failures.length > 0) alert(`Some files could not be added:\n\n${failures.join('\n')}`);
   };
 
-  const clearFile = (e: React.MouseEvent) => {
-      e.stopPropagation();
-      setFileName(null);
-      setFileContent('');
-      setFileType('');
-      if (fileInputRef.current) fileInputRef.current.value = '';
+  const removeFile = (id: string) => {
+      setFiles(prev => prev.filter(f => f.id !== id));
       setSaveStatus('idle');
   };
 
   const handleSave = () => {
-      onContextChange(description, fileContent, fileName || '');
+      onContextChange(description, files);
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 2000);
   };
 
-  const getFileIcon = () => {
-      if (fileType === 'pdf') return <FileType className="w-4 h-4 text-red-500 shrink-0" />;
-      if (fileType === 'docx') return <FileText className="w-4 h-4 text-blue-600 shrink-0" />;
-      return <FileText className="w-4 h-4 text-slate-500 shrink-0" />;
+  const getFileIcon = (name: string) => {
+      switch (documentKind(name)) {
+          case 'pdf': return <FileType className="w-4 h-4 text-red-500 shrink-0" />;
+          case 'docx': return <FileText className="w-4 h-4 text-blue-600 shrink-0" />;
+          case 'pptx': return <Presentation className="w-4 h-4 text-orange-500 shrink-0" />;
+          case 'xlsx': case 'csv': case 'tsv': return <FileSpreadsheet className="w-4 h-4 text-emerald-600 shrink-0" />;
+          case 'epub': return <BookOpen className="w-4 h-4 text-purple-600 shrink-0" />;
+          case 'html': return <FileCode className="w-4 h-4 text-slate-600 shrink-0" />;
+          default: return <FileText className="w-4 h-4 text-slate-500 shrink-0" />;
+      }
   };
 
+  const isProcessing = parsing.length > 0;
+
   return (
     <div className="bg-white border-b border-slate-200 transition-all duration-300 shadow-sm relative z-20 shrink-0">
       <div 
@@ -148,9 +104,9 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
         <div className="flex items-center gap-2 md:gap-3 text-[10px] md:text-sm font-black uppercase tracking-widest text-slate-600">
             <Info className="w-3.5 h-3.5 md:w-4 md:h-4 text-blue-600" />
             <span className="truncate">Context & Reference Materials</span>
-            {fileName && (
-                 <span className="ml-2 px-2 py-0.5 bg-blue-50 text-blue-600 rounded-lg text-[8px] border border-blue-100 hidden sm:inline">
-                    Active: {fileName}
+            {files.length > 0 && (
+                 <span className="ml-2 px-2 py-0.5 bg-blue-50 text-blue-600 rounded-lg text-[8px] border border-blue-100 hidden sm:inline max-w-[16rem] truncate">
+                    Active: {files.length === 1 ? files[0].name : `${files.length} files`}
                 </span>
             )}
         </div>
@@ -176,47 +132,60 @@ export const ContextPanel: React.FC<ContextPanelProps> = ({
             {/* File Upload */}
             <div className="space-y-1.5 md:space-y-2 flex flex-col">
                 <label className="text-[10px] font-black text-slate-500 uppercase tracking-[0.2em] flex items-center gap-1">
-                    Reference File (PDF/Word)
+                    Reference Files
                 </label>
-                <div className="flex-1 min-h-[96px] md:min-h-[128px] w-full border-2 border-dashed border-slate-200 rounded-xl flex flex-col items-center justify-center bg-slate-50 hover:bg-blue-50/50 transition-all relative group">
-                    {isProcessing ? (
-                         <div className="flex flex-col items-center gap-2 text-blue-600">
-                            <Loader2 className="w-5 h-5 md:w-6 md:h-6 animate-spin" />
-                            <span className="text-[10px] font-bold uppercase tracking-widest">Parsing...</span>
-                         </div>
-                    ) : !fileName ? (
-                        <>
-                            <input 
-                                type="file" 
-                                ref={fileInputRef}
-                                onChange={handleFileUpload}
-                                accept=".txt,.md,.csv,.docx,.pdf,.doc"
-                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                            />
-                            <div className="flex flex-col items-center gap-1.5 text-slate-400 group-hover:text-blue-500 transition-colors">
-                                <Upload className="w-6 h-6 md:w-8 md:h-8 mb-0.5" />
-                                <p className="text-[10px] font-black uppercase tracking-widest">Select File</p>
-                            </div>
-                        </>
-                    ) : (
-                        <div className="flex flex-col items-center w-full px-4 text-center">
-                            <div className="flex items-center gap-2 px-3 py-2 bg-white border border-blue-100 rounded-xl shadow-sm w-full max-w-[240px]">
-                                {getFileIcon()}
+                {(files.length > 0 || isProcessing) && (
+                    <div className="space-y-1.5 max-h-40 overflow-y-auto custom-scrollbar">
+                        {files.map(file => (
+                            <div key={file.id} className="flex items-center gap-2 px-3 py-2 bg-white border border-blue-100 rounded-xl shadow-sm">
+                                {getFileIcon(file.name)}
                                 <div className="flex flex-col min-w-0 text-left">
-                                    <span className="text-[11px] font-bold text-slate-700 truncate">{fileName}</span>
-                                    <span className="text-[9px] text-slate-400 uppercase font-bold tracking-tighter">{fileContent.length} chars referenced</span>
+                                    <span className="text-[11px] font-bold text-slate-700 truncate">{file.name}</span>
+                                    <span className="text-[9px] text-slate-400 uppercase font-bold tracking-tighter">{file.content.length.toLocaleString()} chars referenced</span>
                                 </div>
-                                <button onClick={clearFile} className="p-1.5 ml-auto hover:bg-red-50 rounded-lg text-slate-400 hover:text-red-500 transition-colors">
+                                <button onClick={() => removeFile(file.id)} className="p-1.5 ml-auto hover:bg-red-50 rounded-lg text-slate-400 hover:text-red-500 transition-colors">
                                     <X className="w-3.5 h-3.5" />
                                 </button>
                             </div>
-                            <p className="mt-1.5 text-[9px] text-emerald-600 font-black uppercase tracking-widest flex items-center gap-1">
-                                <CheckCircle className="w-3 h-3" />
-                                Active Reference
-                            </p>
-                        </div>
-                    )}
+                        ))}
+                        {parsing.map(p => (
+                            <div key={p.name} className="px-3 py-2 bg-white border border-slate-100 rounded-xl">
+                                <div className="flex items-center gap-2">
+                                    <Loader2 className="w-4 h-4 text-blue-600 animate-spin shrink-0" />
+                                    <span className="text-[11px] font-bold text-slate-700 truncate">{p.name}</span>
+                                    <span className="ml-auto text-[9px] text-slate-400 uppercase font-bold tracking-tighter shrink-0">
+                                        {p.total > 0 ? `${p.done} / ${p.total}` : 'Waiting...'}
+                                    </span>
+                                </div>
+                                <div className="mt-1.5 h-1 bg-slate-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-600 transition-all" style={{ width: `${p.total > 0 ? (p.done / p.total) * 100 : 0}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                <div className="flex-1 min-h-[72px] md:min-h-[96px] w-full border-2 border-dashed border-slate-200 rounded-xl flex flex-col items-center justify-center bg-slate-50 hover:bg-blue-50/50 transition-all relative group">
+                    <input 
+                        type="file" 
+                        ref={fileInputRef}
+                        onChange={handleFileUpload}
+                        accept={REFERENCE_FILE_ACCEPT}
+                        multiple
+                        disabled={isProcessing}
+                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10 disabled:cursor-wait"
+                    />
+                    <div className="flex flex-col items-center gap-1.5 text-slate-400 group-hover:text-blue-500 transition-colors">
+                        <Upload className="w-6 h-6 md:w-8 md:h-8 mb-0.5" />
+                        <p className="text-[10px] font-black uppercase tracking-widest">{files.length > 0 ? 'Add Files' : 'Select Files'}</p>
+                        <p className="text-[8px] font-bold uppercase tracking-widest text-slate-300">PDF · Word · PowerPoint · Excel/CSV · HTML · EPUB · Text</p>
+                    </div>
                 </div>
+                {files.length > 0 && !isProcessing && (
+                    <p className="text-[9px] text-emerald-600 font-black uppercase tracking-widest flex items-center gap-1">
+                        <CheckCircle className="w-3 h-3" />
+                        {files.length} Active Reference{files.length === 1 ? '' : 's'}
+                    </p>
+                )}
             </div>
           </div>
 
@@ -1,6 +1,6 @@
 
 import React, { memo } from 'react';
-import { Play, Pause, Square, Trash2, Sparkles, Loader2, ArrowRightCircle } from 'lucide-react';
+import { Play, Pause, Square, Trash2, Sparkles, Loader2, ArrowRightCircle, UserPlus } from 'lucide-react';
 import { TranscriptionStatus } from '../types';
 
 interface ControlsProps {
@@ -14,6 +14,7 @@ interface ControlsProps {
   isOptimizing: boolean;
   hasText: boolean;
   isBatchMode?: boolean;
+  onNewSpeaker?: () => void; // Marks a speaker change during capture
 }
 
 export const Controls: React.FC<ControlsProps> = memo(({ 
@@ -26,7 +27,8 @@ export const Controls: React.FC<ControlsProps> = memo(({
   onOptimize,
   isOptimizing,
   hasText,
-  isBatchMode = false
+  isBatchMode = false,
+  onNewSpeaker
 }) => {
   const isRecording = status === TranscriptionStatus.RECORDING;
   const isPaused = status === TranscriptionStatus.PAUSED;
@@ -68,6 +70,17 @@ export const Controls: React.FC<ControlsProps> = memo(({
           <Square className="w-4 h-4 sm:w-5 sm:h-5 fill-current" />
           <span>Stop</span>
         </button>
+
+        {isRecording && onNewSpeaker && (
+          <button
+            onClick={onNewSpeaker}
+            className="flex items-center gap-2 p-2.5 sm:px-4 sm:py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl sm:rounded-full font-bold text-xs sm:text-sm transition-all active:scale-95"
+            title="New Speaker"
+          >
+            <UserPlus className="w-4 h-4 sm:w-5 sm:h-5" />
+            <span className="hidden sm:inline">Speaker</span>
+          </button>
+        )}
       </div>
 
       <div className="hidden md:block w-px h-8 bg-slate-200 mx-1" />
@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { Download, FileText, Captions, FileType, Loader2 } from 'lucide-react';
+import { SubtitleTrack, SubtitleFormat } from '../utils/subtitles';
+
+export type ExportRequest =
+  | { kind: 'markdown' }
+  | { kind: 'minutes'; format: 'docx' | 'pdf' }
+  | { kind: 'subtitles'; track: SubtitleTrack; format: SubtitleFormat };
+
+interface ExportMenuProps {
+  onExport: (request: ExportRequest) => void;
+  sourceLabel: string;
+  targetLabel: string;
+  hasContent: boolean;
+  isExporting?: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = memo(({ onExport, sourceLabel, targetLabel, hasContent, isExporting = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handle = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handle);
+    return () => document.removeEventListener('mousedown', handle);
+  }, [isOpen]);
+
+  const pick = (request: ExportRequest) => {
+    onExport(request);
+    setIsOpen(false);
+  };
+
+  const tracks: { track: SubtitleTrack; label: string }[] = [
+    { track: 'source', label: `Source (${sourceLabel})` },
+    { track: 'translation', label: `Interpretation (${targetLabel})` },
+    { track: 'bilingual', label: `Bilingual (${sourceLabel} + ${targetLabel})` },
+  ];
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className={`p-2.5 md:px-5 md:py-2.5 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all ${isOpen ? 'bg-slate-200 text-slate-800' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}>
+        {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        <span className="hidden sm:inline">Export</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-50 animate-in fade-in slide-in-from-top-2">
+          <button
+            onClick={() => pick({ kind: 'markdown' })}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 text-left transition-colors"
+          >
+            <FileText className="w-4 h-4 text-slate-500 shrink-0" />
+            <div>
+              <p className="text-xs font-black uppercase tracking-tight text-slate-700">Session Archive</p>
+              <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">Markdown · .md</p>
+            </div>
+          </button>
+
+          {([
+            { format: 'docx', label: 'Word Document · .docx', icon: <FileText className="w-4 h-4 text-blue-600 shrink-0" /> },
+            { format: 'pdf', label: 'PDF Document · .pdf', icon: <FileType className="w-4 h-4 text-red-500 shrink-0" /> },
+          ] as const).map(({ format, label, icon }) => (
+            <button
+              key={format}
+              disabled={isExporting}
+              onClick={() => pick({ kind: 'minutes', format })}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 text-left transition-colors disabled:opacity-40"
+            >
+              {icon}
+              <div>
+                <p className="text-xs font-black uppercase tracking-tight text-slate-700">Meeting Minutes</p>
+                <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">{label}</p>
+              </div>
+            </button>
+          ))}
+
+          <div className="mt-1 pt-2 border-t border-slate-100">
+            <p className="px-3 pb-1 text-[9px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5">
+              <Captions className="w-3 h-3" /> Subtitles
+            </p>
+            {tracks.map(({ track, label }) => (
+              <div key={track} className="flex items-center justify-between gap-2 px-3 py-1.5">
+                <span className="text-[11px] font-bold text-slate-600 truncate">{label}</span>
+                <div className="flex items-center gap-1 shrink-0">
+                  {(['srt', 'vtt'] as SubtitleFormat[]).map(format => (
+                    <button
+                      key={format}
+                      disabled={!hasContent}
+                      onClick={() => pick({ kind: 'subtitles', track, format })}
+                      className="px-2 py-1 rounded-lg bg-slate-100 hover:bg-blue-600 hover:text-white text-[9px] font-black uppercase text-slate-500 transition-colors disabled:opacity-40 disabled:hover:bg-slate-100 disabled:hover:text-slate-500"
+                    >
+                      .{format}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ExportMenu.displayName = 'ExportMenu';
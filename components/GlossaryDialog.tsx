@@ -0,0 +1,140 @@
+import React, { useState, useRef, memo } from 'react';
+import { BookOpen, X, Plus, Trash2, Upload, Download, Copy, Loader2 } from 'lucide-react';
+import { GlossaryEntry, SessionMetadata } from '../types';
+import { generateId } from '../utils/segments';
+import { glossaryFromCsv, mergeGlossary } from '../utils/glossary';
+
+interface GlossaryDialogProps {
+  glossary: GlossaryEntry[];
+  onChange: (glossary: GlossaryEntry[]) => void;
+  sessions: SessionMetadata[];  // Other sessions whose glossary can be copied in
+  onLoadGlossary: (sessionId: string) => Promise<GlossaryEntry[]>;
+  onExportCsv: () => void;
+  onClose: () => void;
+}
+
+// Per-session terminology used by the refiner and the interpreter
+export const GlossaryDialog: React.FC<GlossaryDialogProps> = memo(({ glossary, onChange, sessions, onLoadGlossary, onExportCsv, onClose }) => {
+  const [copyFrom, setCopyFrom] = useState('');
+  const [isCopying, setIsCopying] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (id: string, patch: Partial<GlossaryEntry>) => onChange(glossary.map(e => e.id === id ? { ...e, ...patch } : e));
+
+  const addEntry = () => onChange([...glossary, { id: generateId(), source: '', target: '' }]);
+
+  const handleCopy = async () => {
+    if (!copyFrom) return;
+    setIsCopying(true);
+    try {
+      const added = await onLoadGlossary(copyFrom);
+      if (added.length === 0) alert("That session has no glossary.");
+      else onChange(mergeGlossary(glossary, added));
+    } catch (err) {
+      console.error(err);
+      alert("Could not read that session's glossary.");
+    } finally {
+      setIsCopying(false);
+      setCopyFrom('');
+    }
+  };
+
+  const handleCsv = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const added = glossaryFromCsv(await file.text());
+    if (added.length === 0) return alert("No glossary terms found. Expected columns: source, target, do not translate.");
+    onChange(mergeGlossary(glossary, added));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-2xl max-h-[85vh] rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between bg-blue-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <BookOpen className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">Glossary</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                {glossary.length} term{glossary.length === 1 ? '' : 's'} · used by the refiner and interpreter
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex flex-wrap items-center gap-2">
+          <select
+            value={copyFrom}
+            onChange={(e) => setCopyFrom(e.target.value)}
+            className="flex-1 min-w-[10rem] px-3 py-1.5 bg-slate-100 rounded-lg text-[11px] font-bold text-slate-600 outline-none"
+          >
+            <option value="">Copy terms from another session…</option>
+            {sessions.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+          <button onClick={handleCopy} disabled={!copyFrom || isCopying} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-600 disabled:opacity-40">
+            {isCopying ? <Loader2 className="w-3 h-3 animate-spin" /> : <Copy className="w-3 h-3" />} Copy
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-600">
+            <Upload className="w-3 h-3" /> Import CSV
+          </button>
+          <button onClick={onExportCsv} disabled={glossary.length === 0} className="flex items-center gap-1.5 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-600 disabled:opacity-40">
+            <Download className="w-3 h-3" /> Export CSV
+          </button>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsv} />
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 px-1 text-[9px] font-black uppercase tracking-widest text-slate-400">
+            <span>Source Term</span>
+            <span>Preferred Interpretation</span>
+            <span title="Keep the source term as is">Keep</span>
+            <span className="w-7" />
+          </div>
+          {glossary.map(entry => (
+            <div key={entry.id} className="grid grid-cols-[1fr_1fr_auto_auto] gap-2 items-center">
+              <input
+                value={entry.source}
+                onChange={(e) => update(entry.id, { source: e.target.value })}
+                placeholder="e.g. burn rate"
+                className="px-3 py-2 rounded-xl border border-slate-200 focus:border-blue-400 outline-none text-xs font-bold text-slate-700"
+              />
+              <input
+                value={entry.doNotTranslate ? entry.source : entry.target}
+                disabled={entry.doNotTranslate}
+                onChange={(e) => update(entry.id, { target: e.target.value })}
+                placeholder="e.g. tốc độ đốt tiền"
+                className="px-3 py-2 rounded-xl border border-slate-200 focus:border-blue-400 outline-none text-xs font-bold text-slate-700 disabled:bg-slate-50 disabled:text-slate-400"
+              />
+              <input
+                type="checkbox"
+                checked={!!entry.doNotTranslate}
+                onChange={(e) => update(entry.id, { doNotTranslate: e.target.checked || undefined })}
+                className="w-4 h-4 accent-blue-600 justify-self-center"
+                title="Do not translate"
+              />
+              <button onClick={() => onChange(glossary.filter(e => e.id !== entry.id))} className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button onClick={addEntry} className="w-full mt-2 flex items-center justify-center gap-2 py-2.5 border-2 border-dashed border-slate-200 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 hover:border-blue-300 hover:text-blue-600 transition-colors">
+            <Plus className="w-3.5 h-3.5" /> Add Term
+          </button>
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex items-center justify-between gap-4">
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider">Interpretations that miss a term are flagged in amber.</p>
+          <button onClick={onClose} className="bg-blue-600 text-white px-6 py-3 rounded-xl font-bold text-xs uppercase tracking-widest shadow-lg shadow-blue-500/20">Done</button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+GlossaryDialog.displayName = 'GlossaryDialog';
@@ -0,0 +1,114 @@
+import React, { useState, memo } from 'react';
+import { AlertTriangle, Copy, Replace, X } from 'lucide-react';
+import { SessionBundleEntry, SessionMetadata } from '../types';
+
+export type ImportResolution = { action: 'rename'; name: string } | { action: 'overwrite' };
+
+interface ImportConflictDialogProps {
+  conflicts: SessionBundleEntry[];
+  existing: SessionMetadata[];
+  newCount: number; // Sessions in the bundle that import without a collision
+  onConfirm: (resolutions: Record<string, ImportResolution>) => void;
+  onCancel: () => void;
+}
+
+export const ImportConflictDialog: React.FC<ImportConflictDialogProps> = memo(({ conflicts, existing, newCount, onConfirm, onCancel }) => {
+  // Renaming is the default so nothing local is lost unless the user asks for it
+  const [resolutions, setResolutions] = useState<Record<string, ImportResolution>>(() =>
+    Object.fromEntries(conflicts.map((c): [string, ImportResolution] => [c.meta.id, { action: 'rename', name: `${c.meta.name} (Imported)` }]))
+  );
+
+  const setAll = (action: ImportResolution['action']) => setResolutions(prev => Object.fromEntries(
+    conflicts.map((c): [string, ImportResolution] => {
+      const current = prev[c.meta.id];
+      const name = current?.action === 'rename' ? current.name : `${c.meta.name} (Imported)`;
+      return [c.meta.id, action === 'overwrite' ? { action } : { action, name }];
+    })
+  ));
+
+  const canConfirm = conflicts.every(c => {
+    const r = resolutions[c.meta.id];
+    return r.action === 'overwrite' || r.name.trim();
+  });
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-slate-900/60 backdrop-blur-sm animate-in fade-in duration-300">
+      <div className="bg-white w-full max-w-xl max-h-[80vh] rounded-[32px] shadow-2xl flex flex-col overflow-hidden animate-in zoom-in-95 duration-300">
+        <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between bg-amber-50/50">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-amber-500 rounded-xl flex items-center justify-center text-white shadow-lg">
+              <AlertTriangle className="w-5 h-5" />
+            </div>
+            <div>
+              <h2 className="text-lg font-black uppercase tracking-tight">Sessions Already Exist</h2>
+              <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">
+                {conflicts.length} conflicting{newCount > 0 ? ` · ${newCount} new` : ''}
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4 flex items-center gap-2">
+          <span className="text-[9px] font-black uppercase tracking-widest text-slate-400 mr-auto">Apply to all</span>
+          <button onClick={() => setAll('rename')} className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-600">Keep Both</button>
+          <button onClick={() => setAll('overwrite')} className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg text-[10px] font-black uppercase text-slate-600">Overwrite</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 space-y-3">
+          {conflicts.map(({ meta }) => {
+            const resolution = resolutions[meta.id];
+            const local = existing.find(s => s.id === meta.id);
+            return (
+              <div key={meta.id} className="p-4 rounded-2xl border border-slate-100 space-y-3">
+                <div className="min-w-0">
+                  <h3 className="text-sm font-black uppercase tracking-tight text-slate-800 truncate">{meta.name}</h3>
+                  <p className="text-[9px] font-black text-slate-400 uppercase tracking-tighter">
+                    Imported: {new Date(meta.updatedAt).toLocaleString()} · Local{local && local.name !== meta.name ? ` "${local.name}"` : ''}: {local ? new Date(local.updatedAt).toLocaleString() : '—'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setResolutions(prev => ({ ...prev, [meta.id]: { action: 'rename', name: `${meta.name} (Imported)` } }))}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-colors ${resolution.action === 'rename' ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    <Copy className="w-3 h-3" /> Import as Copy
+                  </button>
+                  <button
+                    onClick={() => setResolutions(prev => ({ ...prev, [meta.id]: { action: 'overwrite' } }))}
+                    className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase transition-colors ${resolution.action === 'overwrite' ? 'bg-red-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    <Replace className="w-3 h-3" /> Overwrite Local
+                  </button>
+                </div>
+                {resolution.action === 'rename' && (
+                  <input
+                    type="text"
+                    value={resolution.name}
+                    onChange={(e) => setResolutions(prev => ({ ...prev, [meta.id]: { action: 'rename', name: e.target.value } }))}
+                    className="w-full bg-slate-50 border border-slate-200 rounded-xl px-3 py-2 text-sm font-medium outline-none focus:border-blue-500"
+                  />
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-6 py-4 bg-slate-50 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onCancel} className="bg-slate-100 text-slate-600 px-4 py-3 rounded-xl font-bold text-xs uppercase tracking-widest">Cancel</button>
+          <button
+            disabled={!canConfirm}
+            onClick={() => onConfirm(resolutions)}
+            className="bg-blue-600 text-white px-6 py-3 rounded-xl font-bold text-xs uppercase tracking-widest shadow-lg shadow-blue-500/20 disabled:opacity-40"
+          >
+            Import {conflicts.length + newCount}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+ImportConflictDialog.displayName = 'ImportConflictDialog';
@@ -0,0 +1,45 @@
+import React, { memo } from 'react';
+import { ArrowLeftRight, Globe } from 'lucide-react';
+import { LanguagePair } from '../types';
+import { LANGUAGES } from '../constants';
+
+interface LanguagePairPickerProps {
+  value: LanguagePair;
+  onChange: (pair: LanguagePair) => void;
+  disabled?: boolean;
+}
+
+export const LanguagePairPicker: React.FC<LanguagePairPickerProps> = memo(({ value, onChange, disabled = false }) => {
+  const selectClass = "bg-transparent text-[10px] font-black uppercase tracking-widest text-slate-700 outline-none cursor-pointer disabled:cursor-not-allowed";
+
+  const handleSource = (source: string) => {
+    // Picking the current target as source simply swaps the pair
+    onChange(source === value.target ? { source, target: value.source } : { ...value, source });
+  };
+
+  const handleTarget = (target: string) => {
+    onChange(target === value.source ? { source: value.target, target } : { ...value, target });
+  };
+
+  return (
+    <div className={`flex items-center gap-2 bg-slate-50 border border-slate-200 px-3 py-2 rounded-xl ${disabled ? 'opacity-60' : ''}`} title={disabled ? 'Stop recording to change languages' : 'Language Pair'}>
+      <Globe className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+      <select value={value.source} onChange={(e) => handleSource(e.target.value)} disabled={disabled} className={selectClass}>
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label} · {l.name}</option>)}
+      </select>
+      <button
+        onClick={() => onChange({ source: value.target, target: value.source })}
+        disabled={disabled}
+        className="p-1 text-slate-400 hover:text-blue-600 rounded-md transition-colors disabled:hover:text-slate-400"
+        title="Swap Languages"
+      >
+        <ArrowLeftRight className="w-3.5 h-3.5" />
+      </button>
+      <select value={value.target} onChange={(e) => handleTarget(e.target.value)} disabled={disabled} className={selectClass}>
+        {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label} · {l.name}</option>)}
+      </select>
+    </div>
+  );
+});
+
+LanguagePairPicker.displayName = 'LanguagePairPicker';
@@ -1,46 +1,13 @@
-import React, { useState, useEffect } from 'react';
-import { Wifi, WifiOff } from 'lucide-react';
+import React from 'react';
+import { Wifi, WifiOff, HardDriveDownload } from 'lucide-react';
 
-export const NetworkStatus: React.FC = () => {
-  const [ping, setPing] = useState<number | null>(null);
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  useEffect(() => {
-    const updateOnlineStatus = () => setIsOnline(navigator.onLine);
-    window.addEventListener('online', updateOnlineStatus);
-    window.addEventListener('offline', updateOnlineStatus);
-
-    return () => {
-      window.removeEventListener('online', updateOnlineStatus);
-      window.removeEventListener('offline', updateOnlineStatus);
-    };
-  }, []);
-
-  useEffect(() => {
-    if (!isOnline) {
-      setPing(null);
-      return;
-    }
-
-    const checkPing = async () => {
-      const start = performance.now();
-      try {
-        // Fetching a tiny resource to measure round-trip time
-        // Using a reliable CDN or public endpoint that allows CORS or a simple HEAD request
-        await fetch('https://www.google.com/generate_204', { mode: 'no-cors', cache: 'no-store' });
-        const end = performance.now();
-        setPing(Math.round(end - start));
-      } catch (e) {
-        setPing(null); // Request failed
-      }
-    };
-
-    const interval = setInterval(checkPing, 2000);
-    checkPing(); // Initial check
-
-    return () => clearInterval(interval);
-  }, [isOnline]);
+interface NetworkStatusProps {
+  isOnline: boolean;
+  ping: number | null;
+  isBuffering?: boolean; // Microphone audio is being kept locally until the connection returns
+}
 
+export const NetworkStatus: React.FC<NetworkStatusProps> = ({ isOnline, ping, isBuffering = false }) => {
   const getPingColor = (ms: number) => {
     if (ms < 100) return 'text-green-500';
     if (ms < 300) return 'text-amber-500';
@@ -60,8 +27,13 @@ export const NetworkStatus: React.FC = () => {
         <>
           <WifiOff className="w-3 h-3 text-red-500" />
           <span className="text-red-500">Offline</span>
+          {isBuffering && (
+            <span className="flex items-center gap-1 text-amber-600 border-l border-slate-200 pl-2">
+              <HardDriveDownload className="w-3 h-3 animate-pulse" /> Buffering
+            </span>
+          )}
         </>
       )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,37 @@
+import React, { memo } from 'react';
+import { FileText, X } from 'lucide-react';
+
+interface ReferencePassagesProps {
+  passages: { index: number; fileName: string; text: string }[];
+  onClose: () => void;
+}
+
+// Passages of the reference documents that were sent with the selected segment's interpretation
+export const ReferencePassages: React.FC<ReferencePassagesProps> = memo(({ passages, onClose }) => (
+  <div className="mx-4 md:mx-8 -mt-2 md:-mt-4 mb-4 md:mb-6 shrink-0 bg-white border border-slate-200 rounded-xl md:rounded-2xl shadow-sm animate-in fade-in slide-in-from-bottom-2">
+    <div className="px-4 py-2.5 border-b border-slate-100 flex items-center justify-between gap-3">
+      <div className="flex items-center gap-2 min-w-0">
+        <FileText className="w-3.5 h-3.5 text-emerald-600 shrink-0" />
+        <h3 className="text-[10px] font-black uppercase tracking-widest text-slate-600 truncate">
+          Reference passages used
+        </h3>
+      </div>
+      <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-400 shrink-0">
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+    <div className="max-h-40 overflow-y-auto custom-scrollbar p-3 grid gap-2 md:grid-cols-2">
+      {passages.map(p => (
+        <blockquote key={p.index} className="flex gap-2 px-3 py-2 bg-slate-50 rounded-lg text-[11px] leading-relaxed text-slate-600">
+          <span className="font-mono font-bold text-slate-400 shrink-0">§{p.index + 1}</span>
+          <span className="min-w-0">
+            <span className="block text-[9px] font-black uppercase tracking-widest text-slate-400 truncate">{p.fileName}</span>
+            <span className="break-words">{p.text}</span>
+          </span>
+        </blockquote>
+      ))}
+    </div>
+  </div>
+));
+
+ReferencePassages.displayName = 'ReferencePassages';
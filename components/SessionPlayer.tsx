@@ -0,0 +1,139 @@
+import React, { useState, useEffect, useRef, useMemo, memo, forwardRef, useImperativeHandle } from 'react';
+import { Play, Pause, Headphones } from 'lucide-react';
+import { AudioTake } from '../types';
+import { formatClock } from '../utils/time';
+
+export interface SessionPlayerHandle {
+  // Jump to a moment on the session clock and start playing
+  seekTo: (time: number) => void;
+}
+
+interface SessionPlayerProps {
+  takes: AudioTake[];
+  // Current position on the session clock while playing, null when stopped
+  onTimeChange: (time: number | null) => void;
+}
+
+// Recognition stamps a segment when the first words are heard, so start slightly earlier
+const SEEK_PREROLL = 0.5;
+
+/**
+ * Plays a session's recorded takes as one timeline expressed in session-clock seconds.
+ * The native scrubber is not used: MediaRecorder files often report no duration.
+ */
+export const SessionPlayer = memo(forwardRef<SessionPlayerHandle, SessionPlayerProps>(({ takes, onTimeChange }, ref) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [takeIndex, setTakeIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(takes[0]?.startTime ?? 0);
+  // Offset to apply once the next take's source has loaded
+  const pendingSeekRef = useRef<{ offset: number; play: boolean } | null>(null);
+
+  const urls = useMemo(() => takes.map(t => URL.createObjectURL(t.audio)), [takes]);
+  useEffect(() => () => urls.forEach(u => URL.revokeObjectURL(u)), [urls]);
+
+  useEffect(() => {
+    setTakeIndex(0);
+    setIsPlaying(false);
+    setPosition(takes[0]?.startTime ?? 0);
+    onTimeChange(null);
+  }, [takes]);
+
+  const timelineStart = takes[0]?.startTime ?? 0;
+  const timelineEnd = takes[takes.length - 1]?.endTime ?? 0;
+
+  const jumpTo = (time: number, play: boolean) => {
+    if (takes.length === 0) return;
+    // Moments between takes (recording was stopped) snap forward to the next recorded take
+    let index = takes.findIndex(t => time < t.endTime);
+    if (index === -1) index = takes.length - 1;
+    const offset = Math.max(0, time - takes[index].startTime);
+    setPosition(takes[index].startTime + offset);
+
+    const audio = audioRef.current;
+    if (index === takeIndex && audio && audio.readyState > 0) {
+      audio.currentTime = offset;
+      if (play) audio.play().catch(() => {});
+    } else {
+      pendingSeekRef.current = { offset, play };
+      setTakeIndex(index);
+    }
+  };
+
+  useImperativeHandle(ref, () => ({ seekTo: (time: number) => jumpTo(time - SEEK_PREROLL, true) }));
+
+  const handleLoaded = () => {
+    const audio = audioRef.current;
+    const pending = pendingSeekRef.current;
+    if (!audio || !pending) return;
+    pendingSeekRef.current = null;
+    audio.currentTime = pending.offset;
+    if (pending.play) audio.play().catch(() => {});
+  };
+
+  const handleTimeUpdate = () => {
+    const audio = audioRef.current;
+    const take = takes[takeIndex];
+    if (!audio || !take) return;
+    const time = take.startTime + audio.currentTime;
+    setPosition(time);
+    if (!audio.paused) onTimeChange(time);
+  };
+
+  const handleEnded = () => {
+    if (takeIndex < takes.length - 1) {
+      pendingSeekRef.current = { offset: 0, play: true };
+      setTakeIndex(takeIndex + 1);
+    } else {
+      setIsPlaying(false);
+      onTimeChange(null);
+    }
+  };
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(() => {});
+    else audio.pause();
+  };
+
+  if (takes.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-white border border-slate-200 rounded-xl shadow-sm">
+      <audio
+        ref={audioRef}
+        src={urls[takeIndex]}
+        preload="metadata"
+        onLoadedMetadata={handleLoaded}
+        onTimeUpdate={handleTimeUpdate}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => { setIsPlaying(false); onTimeChange(null); }}
+        onEnded={handleEnded}
+        className="hidden"
+      />
+      <Headphones className="w-4 h-4 text-slate-400 shrink-0" />
+      <button
+        onClick={togglePlay}
+        className="w-8 h-8 shrink-0 rounded-full bg-blue-600 hover:bg-blue-700 text-white flex items-center justify-center shadow"
+        title={isPlaying ? 'Pause recording' : 'Play recording'}
+      >
+        {isPlaying ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5 ml-0.5" />}
+      </button>
+      <input
+        type="range"
+        min={timelineStart}
+        max={Math.max(timelineEnd, timelineStart + 1)}
+        step={0.1}
+        value={position}
+        onChange={(e) => jumpTo(parseFloat(e.target.value), isPlaying)}
+        className="flex-1 min-w-0 accent-blue-600"
+      />
+      <span className="shrink-0 font-mono text-[11px] font-bold text-slate-500 tabular-nums">
+        {formatClock(position)} / {formatClock(timelineEnd)}
+      </span>
+    </div>
+  );
+}));
+
+SessionPlayer.displayName = 'SessionPlayer';
@@ -1,7 +1,8 @@
 
-import React, { useState } from 'react';
-import { Folder, Plus, Calendar, Clock, Trash2, FileText, X, Search, ChevronRight, Hash } from 'lucide-react';
-import { SessionMetadata } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Folder, Plus, Calendar, Clock, Trash2, FileText, X, Search, ChevronRight, Hash, HardDrive, AlertTriangle, ArrowDownWideNarrow, Upload, Download, CheckSquare, Square, Quote, Loader2, Headphones, RefreshCcw } from 'lucide-react';
+import { SessionMetadata, SessionSearchHit, AudioTake } from '../types';
+import { formatClock } from '../utils/time';
 
 interface SessionVaultProps {
   isOpen: boolean;
@@ -11,8 +12,72 @@ interface SessionVaultProps {
   onSelect: (id: string) => void;
   onDelete: (id: string) => void;
   onNew: (name: string) => void;
+  onExport: (ids: string[]) => void;
+  onImport: (file: File) => void;
+  onSearch: (query: string) => Promise<SessionSearchHit[]>;
+  onOpenMatch: (sessionId: string, segmentId: string) => void;
+  onLoadAudio: (sessionId: string) => Promise<AudioTake[]>;
+  onRetranscribe: (sessionId: string) => void;
+  storageUsage?: { usage: number; quota: number } | null;
+  storageWarning?: string | null;
 }
 
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
+
+const audioExtension = (type: string) => type.includes('ogg') ? 'ogg' : type.includes('mp4') ? 'm4a' : 'webm';
+
+// Player and download links for a session's recorded audio, decrypted on demand
+const SessionAudioPanel: React.FC<{ session: SessionMetadata; onLoadAudio: SessionVaultProps['onLoadAudio']; onRetranscribe: () => void }> = ({ session, onLoadAudio, onRetranscribe }) => {
+  const [takes, setTakes] = useState<(AudioTake & { url: string })[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: string[] = [];
+    onLoadAudio(session.id)
+      .then(loaded => {
+        if (cancelled) return;
+        const withUrls = loaded.map(t => ({ ...t, url: URL.createObjectURL(t.audio) }));
+        urls = withUrls.map(t => t.url);
+        setTakes(withUrls);
+      })
+      .catch(() => { if (!cancelled) setError('Could not load the recording.'); });
+    return () => { cancelled = true; urls.forEach(u => URL.revokeObjectURL(u)); };
+  }, [session.id, onLoadAudio]);
+
+  return (
+    <div onClick={(e) => e.stopPropagation()} className="mx-4 -mt-1 mb-2 px-4 py-3 bg-slate-50 border border-t-0 border-slate-100 rounded-b-2xl space-y-2">
+      {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+      {!takes && !error && <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />}
+      {takes?.length === 0 && <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">No audio stored.</p>}
+      {takes?.map((take, i) => (
+        <div key={take.id} className="flex items-center gap-3">
+          <span className="text-[9px] font-black uppercase tracking-tighter text-slate-400 tabular-nums w-24 shrink-0">{formatClock(take.startTime)} – {formatClock(take.endTime)}</span>
+          <audio controls preload="metadata" src={take.url} className="flex-1 h-8 min-w-0" />
+          <a
+            href={take.url}
+            download={`${session.name.replace(/\s+/g, '_')}${takes.length > 1 ? `_part${i + 1}` : ''}.${audioExtension(take.audio.type)}`}
+            className="p-2 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg"
+            title="Download recording"
+          >
+            <Download className="w-4 h-4" />
+          </a>
+        </div>
+      ))}
+      {takes && takes.length > 0 && (
+        <button onClick={onRetranscribe} className="flex items-center gap-1.5 px-3 py-1.5 bg-white border border-slate-200 hover:border-blue-200 hover:text-blue-600 rounded-lg text-[10px] font-black uppercase tracking-widest text-slate-500">
+          <RefreshCcw className="w-3 h-3" /> Re-transcribe from Recording
+        </button>
+      )}
+    </div>
+  );
+};
+
 export const SessionVault: React.FC<SessionVaultProps> = ({
   isOpen,
   onClose,
@@ -20,15 +85,74 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
   activeSessionId,
   onSelect,
   onDelete,
-  onNew
+  onNew,
+  onExport,
+  onImport,
+  onSearch,
+  onOpenMatch,
+  onLoadAudio,
+  onRetranscribe,
+  storageUsage,
+  storageWarning
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [sortBySize, setSortBySize] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [newName, setNewName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [transcriptHits, setTranscriptHits] = useState<SessionSearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [audioSessionId, setAudioSessionId] = useState<string | null>(null);
+
+  // Debounced full-text search; stale responses are ignored if the query moved on
+  useEffect(() => {
+    const query = searchTerm.trim();
+    if (!isOpen || query.length < 2) { setTranscriptHits([]); setIsSearching(false); return; }
+    let cancelled = false;
+    setIsSearching(true);
+    const timer = setTimeout(() => {
+      onSearch(query)
+        .then(hits => { if (!cancelled) setTranscriptHits(hits); })
+        .catch(() => { if (!cancelled) setTranscriptHits([]); })
+        .finally(() => { if (!cancelled) setIsSearching(false); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [searchTerm, isOpen, onSearch]);
+
+  // Group hits under their session, in the order the sessions are listed
+  const hitGroups = sessions
+    .map(session => ({ session, hits: transcriptHits.filter(h => h.sessionId === session.id) }))
+    .filter(g => g.hits.length > 0)
+    .sort((a, b) => b.session.updatedAt - a.session.updatedAt);
 
   const filteredSessions = sessions.filter(s => 
     s.name.toLowerCase().includes(searchTerm.toLowerCase())
-  ).sort((a, b) => b.updatedAt - a.updatedAt);
+  ).sort((a, b) => sortBySize ? (b.sizeBytes || 0) - (a.sizeBytes || 0) : b.updatedAt - a.updatedAt);
+
+  const usagePercent = storageUsage ? Math.min(100, (storageUsage.usage / storageUsage.quota) * 100) : 0;
+
+  const toggleSelected = (id: string) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    return next;
+  });
+
+  const selectedCount = sessions.filter(s => selectedIds.has(s.id)).length;
+
+  // Exports the ticked sessions, or everything currently listed when nothing is ticked
+  const handleExport = () => {
+    const ids = selectedCount > 0
+      ? sessions.filter(s => selectedIds.has(s.id)).map(s => s.id)
+      : filteredSessions.map(s => s.id);
+    if (ids.length > 0) onExport(ids);
+  };
+
+  const handleImportChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
 
   const handleCreate = (e: React.FormEvent) => {
     e.preventDefault();
@@ -54,21 +178,56 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
               <p className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{sessions.length} Folders Stored</p>
             </div>
           </div>
-          <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
-            <X className="w-6 h-6" />
-          </button>
+          <div className="flex items-center gap-2">
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportChange} />
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-1.5 text-[10px] font-black uppercase text-slate-600 transition-colors"
+              title="Import a session bundle"
+            >
+              <Upload className="w-3.5 h-3.5" /> <span className="hidden sm:inline">Import</span>
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={filteredSessions.length === 0 && selectedCount === 0}
+              className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-xl flex items-center gap-1.5 text-[10px] font-black uppercase text-slate-600 transition-colors disabled:opacity-40"
+              title="Export sessions as a bundle"
+            >
+              <Download className="w-3.5 h-3.5" /> <span className="hidden sm:inline">Export {selectedCount > 0 ? selectedCount : 'All'}</span>
+            </button>
+            <button onClick={onClose} className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
         </div>
 
+        {storageWarning && (
+          <div className="mx-4 md:mx-6 mt-4 flex items-start gap-2 px-4 py-3 bg-amber-50 border border-amber-200 rounded-2xl text-amber-800 text-xs font-bold">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+            <span>{storageWarning}</span>
+          </div>
+        )}
+
         <div className="p-4 md:p-6 border-b border-slate-100 bg-white">
-          <div className="relative mb-4">
-            <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
-            <input 
-              type="text" 
-              placeholder="Search session name..." 
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="w-full bg-slate-50 border-none rounded-2xl py-3.5 pl-11 pr-4 text-sm font-medium outline-none ring-2 ring-transparent focus:ring-blue-500/10 transition-all"
-            />
+          <div className="flex gap-2 mb-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+              <input 
+                type="text" 
+                placeholder="Search names, transcripts and interpretations..." 
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="w-full bg-slate-50 border-none rounded-2xl py-3.5 pl-11 pr-10 text-sm font-medium outline-none ring-2 ring-transparent focus:ring-blue-500/10 transition-all"
+              />
+              {isSearching && <Loader2 className="absolute right-4 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 animate-spin" />}
+            </div>
+            <button
+              onClick={() => setSortBySize(!sortBySize)}
+              className={`px-4 rounded-2xl flex items-center gap-2 text-[10px] font-black uppercase tracking-widest transition-all ${sortBySize ? 'bg-blue-600 text-white' : 'bg-slate-50 text-slate-500 hover:bg-slate-100'}`}
+              title="Sort by stored size"
+            >
+              <ArrowDownWideNarrow className="w-4 h-4" /> <span className="hidden sm:inline">Size</span>
+            </button>
           </div>
           
           {!isCreating ? (
@@ -95,15 +254,42 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
         </div>
 
         <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6 space-y-3">
+          {hitGroups.length > 0 && (
+            <div className="space-y-3 pb-3 border-b border-slate-100">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 flex items-center gap-1.5">
+                <Quote className="w-3 h-3" /> In Transcripts · {transcriptHits.length} match{transcriptHits.length === 1 ? '' : 'es'}
+              </p>
+              {hitGroups.map(({ session, hits }) => (
+                <div key={session.id} className="rounded-2xl border border-slate-100 overflow-hidden">
+                  <div className="px-4 py-2 bg-slate-50 text-[10px] font-black uppercase tracking-tight text-slate-700 truncate">{session.name}</div>
+                  {hits.map((hit, i) => (
+                    <button
+                      key={`${hit.segmentId}-${hit.field}-${i}`}
+                      onClick={() => onOpenMatch(session.id, hit.segmentId)}
+                      className="w-full text-left px-4 py-2.5 border-t border-slate-100 hover:bg-blue-50/50 transition-colors flex items-start gap-3"
+                    >
+                      <span className={`shrink-0 mt-0.5 px-1.5 py-0.5 rounded text-[8px] font-black uppercase tracking-widest ${hit.field === 'source' ? 'bg-blue-100 text-blue-700' : 'bg-emerald-100 text-emerald-700'}`}>
+                        {hit.field === 'source' ? 'SRC' : 'INT'}
+                      </span>
+                      <span className="text-xs text-slate-600 leading-relaxed">
+                        {hit.before}<mark className="bg-amber-200 text-slate-900 rounded px-0.5">{hit.match}</mark>{hit.after}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+
           {filteredSessions.length === 0 ? (
-            <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-2 opacity-60 italic">
+            hitGroups.length === 0 && <div className="h-full flex flex-col items-center justify-center text-slate-300 gap-2 opacity-60 italic">
               <Folder className="w-12 h-12 mb-2" />
               <p className="text-sm font-bold uppercase tracking-widest">No matching sessions found</p>
             </div>
           ) : (
             filteredSessions.map(session => (
+              <React.Fragment key={session.id}>
               <div 
-                key={session.id}
                 onClick={() => onSelect(session.id)}
                 className={`group flex items-center justify-between p-4 rounded-2xl border transition-all cursor-pointer ${
                   activeSessionId === session.id 
@@ -112,6 +298,13 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                 }`}
               >
                 <div className="flex items-center gap-4 min-w-0">
+                  <button
+                    onClick={(e) => { e.stopPropagation(); toggleSelected(session.id); }}
+                    className="p-1 -mr-2 text-slate-300 hover:text-blue-600 transition-colors"
+                    title="Select for export"
+                  >
+                    {selectedIds.has(session.id) ? <CheckSquare className="w-4 h-4 text-blue-600" /> : <Square className="w-4 h-4" />}
+                  </button>
                   <div className={`w-12 h-12 rounded-xl flex items-center justify-center transition-colors ${
                     activeSessionId === session.id ? 'bg-blue-600 text-white' : 'bg-slate-50 text-slate-400 group-hover:bg-blue-50 group-hover:text-blue-500'
                   }`}>
@@ -132,6 +325,18 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                         <FileText className="w-3 h-3" />
                         {session.wordCount} words
                       </div>
+                      {session.sizeBytes !== undefined && (
+                        <div className="flex items-center gap-1 text-[9px] font-black text-slate-400 uppercase tracking-tighter">
+                          <HardDrive className="w-3 h-3" />
+                          {formatBytes(session.sizeBytes)}
+                        </div>
+                      )}
+                      {!!session.audioBytes && (
+                        <div className="flex items-center gap-1 text-[9px] font-black text-slate-400 uppercase tracking-tighter">
+                          <Headphones className="w-3 h-3" />
+                          {formatBytes(session.audioBytes)}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -140,6 +345,15 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                   {activeSessionId === session.id && (
                     <span className="bg-blue-100 text-blue-700 px-2 py-1 rounded-md text-[8px] font-black uppercase tracking-widest mr-2">Active</span>
                   )}
+                  {!!session.audioBytes && (
+                    <button
+                      onClick={(e) => { e.stopPropagation(); setAudioSessionId(audioSessionId === session.id ? null : session.id); }}
+                      className={`p-2.5 rounded-xl transition-all ${audioSessionId === session.id ? 'text-blue-600 bg-blue-50' : 'text-slate-300 hover:text-blue-600 hover:bg-blue-50'}`}
+                      title="Recorded audio"
+                    >
+                      <Headphones className="w-4 h-4" />
+                    </button>
+                  )}
                   <button 
                     onClick={(e) => { e.stopPropagation(); onDelete(session.id); }}
                     className="p-2.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded-xl transition-all"
@@ -150,12 +364,24 @@ export const SessionVault: React.FC<SessionVaultProps> = ({
                   <ChevronRight className={`w-4 h-4 transition-all ${activeSessionId === session.id ? 'text-blue-500' : 'text-slate-300 group-hover:translate-x-1'}`} />
                 </div>
               </div>
+              {audioSessionId === session.id && (
+                <SessionAudioPanel session={session} onLoadAudio={onLoadAudio} onRetranscribe={() => onRetranscribe(session.id)} />
+              )}
+              </React.Fragment>
             ))
           )}
         </div>
         
-        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 text-[9px] text-slate-400 font-bold uppercase tracking-widest text-center">
-          Sessions are stored locally on this device.
+        <div className="px-8 py-4 bg-slate-50 border-t border-slate-100 text-[9px] text-slate-400 font-bold uppercase tracking-widest text-center space-y-2">
+          {storageUsage && (
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${usagePercent > 90 ? 'bg-red-500' : usagePercent > 70 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${usagePercent}%` }} />
+              </div>
+              <span className="tabular-nums">{formatBytes(storageUsage.usage)} / {formatBytes(storageUsage.quota)}</span>
+            </div>
+          )}
+          <p>Sessions are stored locally on this device.</p>
         </div>
       </div>
     </div>
@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useRef, memo } from 'react';
+import { Users, UserPlus, Mic } from 'lucide-react';
+import { speakerName } from '../utils/speakers';
+
+interface SpeakerMenuProps {
+  speakers: string[];              // Ids used in this session, in order of first appearance
+  names: Record<string, string>;
+  onRename: (id: string, name: string) => void;
+  currentSpeaker?: string;         // Speaker new live segments are labelled with
+  onSelectSpeaker: (id: string | undefined) => void;
+  onNewSpeaker: () => void;
+}
+
+// Names the speakers of the open session and picks who is talking during live capture
+export const SpeakerMenu: React.FC<SpeakerMenuProps> = memo(({ speakers, names, onRename, currentSpeaker, onSelectSpeaker, onNewSpeaker }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!isOpen) return;
+    const handle = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handle);
+    return () => document.removeEventListener('mousedown', handle);
+  }, [isOpen]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`p-2.5 md:px-5 md:py-2.5 rounded-xl text-[10px] font-black uppercase flex items-center gap-2 transition-all ${isOpen ? 'bg-slate-200 text-slate-800' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+        title="Speakers"
+      >
+        <Users className="w-4 h-4" />
+        <span className="hidden sm:inline max-w-[8rem] truncate">{currentSpeaker ? speakerName(currentSpeaker, names) : 'Speakers'}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-slate-200 rounded-2xl shadow-xl p-2 z-50 animate-in fade-in slide-in-from-top-2">
+          <p className="px-3 pt-1 pb-2 text-[9px] font-black uppercase tracking-widest text-slate-400">Speakers in this session</p>
+          {speakers.length === 0 && (
+            <p className="px-3 pb-2 text-[11px] font-bold text-slate-400">None yet. Mark a new speaker while recording, or upload audio to detect them.</p>
+          )}
+          {speakers.map(id => (
+            <div key={id} className="flex items-center gap-2 px-3 py-1.5">
+              <button
+                onClick={() => onSelectSpeaker(currentSpeaker === id ? undefined : id)}
+                className={`p-1.5 rounded-lg shrink-0 transition-colors ${currentSpeaker === id ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400 hover:text-slate-600'}`}
+                title={currentSpeaker === id ? 'Stop labelling new speech' : 'Label new speech with this speaker'}
+              >
+                <Mic className="w-3 h-3" />
+              </button>
+              <input
+                value={names[id] ?? ''}
+                placeholder={speakerName(id)}
+                onChange={(e) => onRename(id, e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-slate-200 focus:border-blue-400 outline-none text-xs font-bold text-slate-700"
+              />
+            </div>
+          ))}
+          <div className="mt-1 pt-2 border-t border-slate-100">
+            <button
+              onClick={onNewSpeaker}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-xl hover:bg-slate-50 text-left transition-colors"
+            >
+              <UserPlus className="w-4 h-4 text-blue-600 shrink-0" />
+              <div>
+                <p className="text-xs font-black uppercase tracking-tight text-slate-700">New Speaker</p>
+                <p className="text-[9px] font-bold uppercase tracking-widest text-slate-400">Start a new turn for the next words</p>
+              </div>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+SpeakerMenu.displayName = 'SpeakerMenu';
@@ -1,31 +1,87 @@
+import React, { useEffect, useRef, useState, memo, forwardRef, useImperativeHandle, useLayoutEffect } from 'react';
+import { Copy, Check, ArrowDown, Pencil, Save, Languages, MessageSquareText, Volume2, VolumeX, Clock, User, AlertTriangle, FileText } from 'lucide-react';
+import { TranscriptSegment } from '../types';
+import { joinSegments } from '../utils/segments';
+import { speakerName, startsTurn } from '../utils/speakers';
+import { formatClock } from '../utils/time';
 
-import React, { useEffect, useRef, useState, memo, useMemo, forwardRef, useImperativeHandle } from 'react';
-import { Copy, Check, ArrowDown, Pencil, Save, Languages, MessageSquareText, Volume2, VolumeX } from 'lucide-react';
+export interface TranscriptAreaHandle {
+  // Scroll so `offset` (0..1 of the segment's height) of the given segment sits at the top of the pane
+  scrollToSegment: (id: string, offset?: number) => void;
+  // Bring a segment into the middle of the pane (used when its counterpart is clicked)
+  revealSegment: (id: string) => void;
+}
 
 interface TranscriptAreaProps {
   title: string;
-  text: string;
+  segments: TranscriptSegment[];
+  field: 'source' | 'translation';
   interimText?: string;
-  onChange: (text: string) => void;
+  onSegmentChange: (id: string, value: string) => void;
+  activeSegmentId?: string | null;
+  playingSegmentId?: string | null; // Segment at the recorded audio's playback position
+  onSegmentHover?: (id: string | null) => void;
+  onSegmentSelect?: (id: string) => void;
+  showTimestamps?: boolean;
+  onToggleTimestamps?: () => void;
   accentColor?: 'blue' | 'indigo' | 'emerald';
   enableTTS?: boolean;
   isTTSActive?: boolean;
   onToggleTTS?: () => void;
-  onSyncScroll?: (percentage: number) => void;
+  ttsLanguageName?: string;
+  ttsSettings?: React.ReactNode;
+  onSyncScroll?: (segmentId: string, offset: number) => void;
   badge?: React.ReactNode;
+  speakerNames?: Record<string, string>;
+  speakers?: string[]; // Choices offered when reassigning a segment's speaker in edit mode
+  onSpeakerChange?: (segmentId: string, speaker: string | undefined) => void;
+  segmentWarnings?: Record<string, string[]>; // E.g. glossary terms the interpretation missed
 }
 
-export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProps>(({ 
-  title, 
-  text, 
-  interimText = '', 
-  onChange,
+// Textarea that grows with its content so edited segments keep their place in the flow
+const SegmentEditor: React.FC<{ value: string; onChange: (value: string) => void }> = ({ value, onChange }) => {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  useLayoutEffect(() => {
+    if (!ref.current) return;
+    ref.current.style.height = 'auto';
+    ref.current.style.height = `${ref.current.scrollHeight}px`;
+  }, [value]);
+  return (
+    <textarea
+      ref={ref}
+      value={value}
+      rows={1}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full resize-none outline-none rounded-lg px-2 py-1 -mx-2 bg-slate-50 border border-slate-200 focus:border-blue-400 focus:bg-white text-sm md:text-lg leading-relaxed text-slate-800 font-sans overflow-hidden"
+      spellCheck={false}
+    />
+  );
+};
+
+export const TranscriptArea = memo(forwardRef<TranscriptAreaHandle, TranscriptAreaProps>(({
+  title,
+  segments,
+  field,
+  interimText = '',
+  onSegmentChange,
+  activeSegmentId = null,
+  playingSegmentId = null,
+  onSegmentHover,
+  onSegmentSelect,
+  showTimestamps = false,
+  onToggleTimestamps,
   accentColor = 'blue',
   enableTTS = false,
   isTTSActive = false,
   onToggleTTS,
+  ttsLanguageName = 'Vietnamese',
+  ttsSettings,
   onSyncScroll,
-  badge
+  badge,
+  speakerNames,
+  speakers = [],
+  onSpeakerChange,
+  segmentWarnings
 }, ref) => {
   const localScrollRef = useRef<HTMLDivElement>(null);
   const bottomRef = useRef<HTMLDivElement>(null);
@@ -34,30 +90,41 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
   const [isUserScrolling, setIsUserScrolling] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
 
-  // We use this ref to track the last known state without triggering re-renders 
+  // We use this ref to track the last known state without triggering re-renders
   // during the scroll event itself, improving performance.
   const isUserScrollingRef = useRef(false);
 
-  useImperativeHandle(ref, () => localScrollRef.current as HTMLDivElement);
+  const findSegmentEl = (id: string) =>
+    localScrollRef.current?.querySelector<HTMLElement>(`[data-segment-id="${id}"]`) || null;
 
-  const paragraphs = useMemo(() => {
-    return text.split('\n').filter(p => p.trim() !== '');
-  }, [text]);
+  useImperativeHandle(ref, () => ({
+    scrollToSegment: (id: string, offset = 0) => {
+      const container = localScrollRef.current;
+      const el = findSegmentEl(id);
+      if (!container || !el) return;
+      container.scrollTop = el.offsetTop + offset * el.offsetHeight;
+    },
+    revealSegment: (id: string) => {
+      findSegmentEl(id)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }), []);
+
+  const hasContent = segments.some(s => s[field].trim() !== '');
 
   const handleScroll = () => {
-    if (!localScrollRef.current || isEditing) return;
-    
+    if (!localScrollRef.current) return;
+
     const { scrollTop, scrollHeight, clientHeight } = localScrollRef.current;
-    
+
     // Threshold of 30px is usually enough to account for sub-pixel rendering and padding
     const isAtBottom = scrollHeight - scrollTop - clientHeight < 30;
-    
+
     // If user is at bottom, they are no longer "user scrolling" (they are following the live feed)
     if (isAtBottom && isUserScrollingRef.current) {
         setIsUserScrolling(false);
         isUserScrollingRef.current = false;
         setShowScrollButton(false);
-    } 
+    }
     // If user moves up, they have entered manual scrolling mode
     else if (!isAtBottom && !isUserScrollingRef.current) {
         setIsUserScrolling(true);
@@ -65,9 +132,17 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
         setShowScrollButton(true);
     }
 
+    // Anchor sync on the first segment visible at the top of the pane
     if (onSyncScroll && scrollHeight > clientHeight) {
-        const percentage = scrollTop / (scrollHeight - clientHeight);
-        onSyncScroll(percentage);
+        const els = localScrollRef.current.querySelectorAll<HTMLElement>('[data-segment-id]');
+        for (let i = 0; i < els.length; i++) {
+            const el = els[i];
+            if (el.offsetTop + el.offsetHeight > scrollTop) {
+                const offset = Math.max(0, (scrollTop - el.offsetTop) / (el.offsetHeight || 1));
+                onSyncScroll(el.dataset.segmentId!, offset);
+                break;
+            }
+        }
     }
   };
 
@@ -80,7 +155,7 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
           bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
       });
     }
-  }, [text, interimText, isUserScrolling, isEditing]);
+  }, [segments, interimText, isUserScrolling, isEditing]);
 
   const scrollToBottom = () => {
     if (bottomRef.current) {
@@ -93,7 +168,7 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
 
   const handleCopy = async () => {
     try {
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(joinSegments(segments, field));
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
     } catch (err) { console.error(err); }
@@ -111,9 +186,88 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
     indigo: 'bg-indigo-500',
   }[accentColor];
 
+  const highlightStyles = {
+    blue: 'bg-blue-50 ring-blue-200',
+    emerald: 'bg-emerald-50 ring-emerald-200',
+    indigo: 'bg-indigo-50 ring-indigo-200',
+  }[accentColor];
+
+  const renderSegment = (segment: TranscriptSegment, index: number) => {
+    const value = segment[field];
+    const isActive = segment.id === activeSegmentId;
+    const isPlaying = segment.id === playingSegmentId;
+    const isStale = field === 'translation' && !!value && segment.translatedSource !== segment.source;
+    const warnings = segmentWarnings?.[segment.id];
+    const gutter = showTimestamps && (
+      <span
+        className="shrink-0 w-14 pt-[0.3em] font-mono text-[10px] md:text-[11px] font-bold text-slate-400 tabular-nums select-none"
+        title={`${formatClock(segment.startTime)} – ${formatClock(segment.endTime)}`}
+      >
+        [{formatClock(segment.startTime)}]
+      </span>
+    );
+
+    const turnLabel = startsTurn(segments, index) && (
+      <span className="flex items-center gap-1 mb-0.5 text-[10px] font-black uppercase tracking-widest text-slate-400 select-none">
+        <User className="w-3 h-3" />
+        {speakerName(segment.speaker!, speakerNames)}
+      </span>
+    );
+
+    if (isEditing) {
+      return (
+        <div key={segment.id} data-segment-id={segment.id} className="flex gap-2">
+          {gutter}
+          <div className="flex-1 min-w-0">
+            {onSpeakerChange && (
+              <select
+                value={segment.speaker || ''}
+                onChange={(e) => onSpeakerChange(segment.id, e.target.value || undefined)}
+                className="mb-1 text-[10px] font-black uppercase tracking-widest text-slate-500 bg-transparent outline-none cursor-pointer"
+              >
+                <option value="">No speaker</option>
+                {speakers.map(id => <option key={id} value={id}>{speakerName(id, speakerNames)}</option>)}
+              </select>
+            )}
+            <SegmentEditor value={value} onChange={(v) => onSegmentChange(segment.id, v)} />
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div
+        key={segment.id}
+        data-segment-id={segment.id}
+        onMouseEnter={() => onSegmentHover?.(segment.id)}
+        onMouseLeave={() => onSegmentHover?.(null)}
+        onClick={() => onSegmentSelect?.(segment.id)}
+        className={`flex gap-2 rounded-lg px-2 -mx-2 transition-colors cursor-pointer animate-in fade-in duration-500 slide-in-from-bottom-1 ${isActive ? `${highlightStyles} ring-1` : ''} ${isPlaying ? 'bg-amber-50 ring-2 ring-amber-300' : ''}`}
+      >
+        {gutter}
+        <div className="flex-1 min-w-0">
+          {turnLabel}
+          <p className={`break-words whitespace-pre-wrap ${isStale ? 'text-amber-700' : ''}`}>
+            {value || <span className="text-slate-300 italic select-none">…</span>}
+            {warnings && warnings.length > 0 && (
+              <span title={warnings.join('\n')} className="inline-flex align-middle ml-1.5 text-amber-500 select-none">
+                <AlertTriangle className="w-3.5 h-3.5" />
+              </span>
+            )}
+            {field === 'translation' && !isStale && !!segment.references?.length && (
+              <span title={`Drew on ${segment.references.length} reference passage${segment.references.length === 1 ? '' : 's'}; select to view`} className="inline-flex align-middle ml-1.5 text-slate-300 select-none">
+                <FileText className="w-3.5 h-3.5" />
+              </span>
+            )}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="flex-1 w-full flex flex-col bg-white rounded-xl md:rounded-2xl shadow-sm border border-slate-200 overflow-hidden relative transition-all duration-300 hover:shadow-md">
-      
+
       <div className={`px-4 md:px-5 py-2.5 md:py-3.5 border-b flex items-center justify-between ${headerStyles} shrink-0`}>
         <div className="flex items-center gap-2 md:gap-2.5 min-w-0">
             {accentColor === 'blue' ? <MessageSquareText className="w-3.5 h-3.5 md:w-4 md:h-4 shrink-0" /> : <Languages className="w-3.5 h-3.5 md:w-4 md:h-4 shrink-0" />}
@@ -126,18 +280,29 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
                 </span>
             )}
         </div>
-        
+
         <div className="flex items-center gap-1 md:gap-2 shrink-0">
             {enableTTS && onToggleTTS && (
                  <button
                  onClick={onToggleTTS}
                  className={`flex items-center gap-1.5 md:gap-2 px-2 md:px-3 py-1 md:py-1.5 rounded-lg transition-all ${isTTSActive ? 'bg-emerald-600 text-white shadow-sm' : 'bg-white/80 text-slate-500 hover:bg-white hover:text-emerald-600'}`}
-                 title="Toggle Vietnamese Reader"
+                 title={`Toggle ${ttsLanguageName} Reader`}
                 >
                  {isTTSActive ? <Volume2 className="w-3.5 h-3.5 md:w-4 md:h-4" /> : <VolumeX className="w-3.5 h-3.5 md:w-4 md:h-4" />}
                  <span className="text-[9px] md:text-[10px] font-black uppercase hidden xs:inline">{isTTSActive ? 'Speaker On' : 'Silent'}</span>
                </button>
             )}
+            {enableTTS && isTTSActive && ttsSettings}
+
+            {onToggleTimestamps && (
+                <button
+                    onClick={onToggleTimestamps}
+                    className={`p-1.5 md:p-2 rounded-lg transition-all ${showTimestamps ? 'bg-white/80 text-slate-600' : 'hover:bg-white/80 text-slate-400 hover:text-slate-600'}`}
+                    title={showTimestamps ? 'Hide Timestamps' : 'Show Timestamps'}
+                >
+                    <Clock className="w-3.5 h-3.5 md:w-4 md:h-4" />
+                </button>
+            )}
 
              <button
                 onClick={() => setIsEditing(!isEditing)}
@@ -157,33 +322,21 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
       </div>
 
       <div className="flex-1 flex flex-col min-h-0 relative">
-        {isEditing ? (
-           <textarea 
-              value={text}
-              onChange={(e) => onChange(e.target.value)}
-              className="flex-1 w-full h-full p-4 md:p-6 resize-none outline-none border-none text-sm md:text-lg leading-relaxed text-slate-800 bg-slate-50/30 custom-scrollbar font-sans"
-              spellCheck={false}
-           />
-        ) : (
-          <div 
+          <div
               ref={localScrollRef}
               onScroll={handleScroll}
               className="flex-1 p-4 md:p-6 overflow-y-auto custom-scrollbar bg-white scroll-smooth relative"
           >
-              {paragraphs.length === 0 && !interimText && (
+              {!hasContent && !interimText && !isEditing && (
                   <div className="h-full flex flex-col items-center justify-center text-slate-300 select-none animate-pulse">
                       <p className="text-[10px] md:text-xs font-black uppercase tracking-widest text-center">Ready to interpret...</p>
                   </div>
               )}
 
               <div className="flex flex-col gap-3 md:gap-4 text-sm md:text-lg leading-relaxed text-slate-800 font-medium">
-                  {paragraphs.map((para, index) => (
-                      <p key={index} className="break-words animate-in fade-in duration-500 slide-in-from-bottom-1">
-                          {para}
-                      </p>
-                  ))}
-                  
-                  {(interimText || paragraphs.length > 0) && (
+                  {(hasContent || isEditing) && segments.map(renderSegment)}
+
+                  {(interimText || hasContent) && !isEditing && (
                       <div className="min-h-[1.2em] md:min-h-[1.5em] relative">
                           {interimText && (
                               <span className="text-slate-400 italic break-words transition-all">
@@ -193,11 +346,10 @@ export const TranscriptArea = memo(forwardRef<HTMLDivElement, TranscriptAreaProp
                           <span className={`inline-block w-2 md:w-2.5 h-4 md:h-5 ${cursorStyles} ml-1 align-middle animate-cursor-blink rounded-full shadow-sm`}></span>
                       </div>
                   )}
-                  
+
                   <div ref={bottomRef} className="h-2 md:h-4" />
               </div>
           </div>
-        )}
 
         {showScrollButton && !isEditing && (
           <button
@@ -0,0 +1,99 @@
+import React, { useState, memo } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+
+interface VoiceSettingsProps {
+  voices: SpeechSynthesisVoice[];
+  voiceURI: string;
+  onVoiceChange: (uri: string) => void;
+  rate: number;
+  onRateChange: (rate: number) => void;
+  pauseWhileCapturing: boolean;
+  onPauseWhileCapturingChange: (value: boolean) => void;
+  languageName: string;
+  queueLength?: number;
+}
+
+export const VoiceSettings: React.FC<VoiceSettingsProps> = memo(({
+  voices,
+  voiceURI,
+  onVoiceChange,
+  rate,
+  onRateChange,
+  pauseWhileCapturing,
+  onPauseWhileCapturingChange,
+  languageName,
+  queueLength = 0
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-1.5 md:p-2 rounded-lg transition-all ${isOpen ? 'bg-emerald-600 text-white' : 'hover:bg-white/80 text-slate-400 hover:text-slate-600'}`}
+        title="Reader Settings"
+      >
+        <SlidersHorizontal className="w-3.5 h-3.5 md:w-4 md:h-4" />
+        {queueLength > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 bg-emerald-500 text-white rounded-full text-[8px] font-black flex items-center justify-center">{queueLength}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 bg-white border border-slate-200 rounded-2xl shadow-xl p-4 z-40 space-y-4 animate-in fade-in slide-in-from-top-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">{languageName} Reader</span>
+            <button onClick={() => setIsOpen(false)} className="p-1 text-slate-400 hover:text-slate-600 rounded-md">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="text-[9px] font-black uppercase tracking-widest text-slate-400">Voice</label>
+            {voices.length === 0 ? (
+              <p className="text-[10px] text-amber-600 font-bold">No {languageName} voice installed. The browser default will be used.</p>
+            ) : (
+              <select
+                value={voiceURI}
+                onChange={(e) => onVoiceChange(e.target.value)}
+                className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-medium text-slate-700 outline-none focus:border-emerald-500"
+              >
+                {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name}{v.localService ? '' : ' (online)'}</option>)}
+              </select>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-slate-400">
+              <span>Rate</span>
+              <span className="text-slate-600 tabular-nums">{rate.toFixed(1)}x</span>
+            </label>
+            <input
+              type="range"
+              min={0.5}
+              max={2}
+              step={0.1}
+              value={rate}
+              onChange={(e) => onRateChange(parseFloat(e.target.value))}
+              className="w-full accent-emerald-600"
+            />
+          </div>
+
+          <label className="flex items-start gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pauseWhileCapturing}
+              onChange={(e) => onPauseWhileCapturingChange(e.target.checked)}
+              className="mt-0.5 accent-emerald-600"
+            />
+            <span className="text-[10px] text-slate-600 font-medium leading-snug">
+              Hold playback while the microphone is live. Turn off only if listeners hear you through headphones or a virtual cable.
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+});
+
+VoiceSettings.displayName = 'VoiceSettings';
@@ -0,0 +1,22 @@
+import { LanguageOption, LanguagePair } from './types';
+
+// Languages offered in the pair picker. `locale` drives both Web Speech recognition and TTS voices.
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English', label: 'EN', locale: 'en-US' },
+  { code: 'vi', name: 'Vietnamese', label: 'VI', locale: 'vi-VN' },
+  { code: 'ja', name: 'Japanese', label: 'JA', locale: 'ja-JP' },
+  { code: 'zh', name: 'Chinese (Simplified)', label: 'ZH', locale: 'zh-CN' },
+  { code: 'ko', name: 'Korean', label: 'KO', locale: 'ko-KR' },
+  { code: 'fr', name: 'French', label: 'FR', locale: 'fr-FR' },
+  { code: 'de', name: 'German', label: 'DE', locale: 'de-DE' },
+  { code: 'es', name: 'Spanish', label: 'ES', locale: 'es-ES' },
+  { code: 'pt', name: 'Portuguese', label: 'PT', locale: 'pt-BR' },
+  { code: 'ru', name: 'Russian', label: 'RU', locale: 'ru-RU' },
+  { code: 'th', name: 'Thai', label: 'TH', locale: 'th-TH' },
+  { code: 'id', name: 'Indonesian', label: 'ID', locale: 'id-ID' },
+];
+
+export const DEFAULT_LANGUAGE_PAIR: LanguagePair = { source: 'en', target: 'vi' };
+
+export const getLanguage = (code: string): LanguageOption =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
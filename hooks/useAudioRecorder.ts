@@ -0,0 +1,151 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TranscriptionStatus, AudioChunk } from '../types';
+import { pickRecorderMimeType } from '../utils/blob';
+import { generateId } from '../utils/segments';
+import { acquireMicrophone, releaseMicrophone } from '../services/microphone';
+
+const CHUNK_MS = 5000; // How often recorded audio is flushed to storage
+
+interface Take {
+  id: string;
+  sessionId: string;
+  startTime: number;
+  seq: number;
+  stream: MediaStream | null;
+  recorder: MediaRecorder | null;
+  // Recorded wall time, excluding pauses; a session switch resets the clock before the take is closed
+  activeMs: number;
+  resumedAt: number | null;
+  saved: Promise<void>; // Settles once every slice handed out so far has been stored
+  onSettled?: () => void; // Pending `settled()` of a pause or stop, resolved with the save notification
+}
+
+/**
+ * Keeps the raw microphone audio of a meeting. Runs next to speech recognition and follows
+ * its status: RECORDING records, PAUSED pauses the same take, STOPPED closes it. Every
+ * slice is handed to `onChunk` for storage as soon as the browser produces it. `onSaved` is
+ * called once those writes have settled after a take is finished or paused, so a player
+ * reading the stored audio then gets all of it. `settled()` waits for the same after the latest
+ * pause or stop, e.g. before the vault key is dropped.
+ */
+export const useAudioRecorder = (
+  status: TranscriptionStatus,
+  sessionId: string | null,
+  getElapsed: () => number,
+  onChunk: (sessionId: string, chunk: AudioChunk) => Promise<void>,
+  onSaved: (sessionId: string) => void
+) => {
+  const [error, setError] = useState<string | null>(null);
+  const takeRef = useRef<Take | null>(null);
+  const statusRef = useRef(status);
+  statusRef.current = status;
+  const getElapsedRef = useRef(getElapsed);
+  getElapsedRef.current = getElapsed;
+  const onChunkRef = useRef(onChunk);
+  onChunkRef.current = onChunk;
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+  const settledRef = useRef<Promise<void>>(Promise.resolve());
+
+  const notifySaved = (take: Take) => {
+    const onSettled = take.onSettled;
+    take.onSettled = undefined;
+    take.saved.then(() => { onSavedRef.current(take.sessionId); onSettled?.(); });
+  };
+
+  // The last slice only arrives with the pause or stop event, so waiting starts before it is requested
+  const expectSettled = (take: Take) => {
+    const previous = take.onSettled;
+    const pending = new Promise<void>(resolve => { take.onSettled = () => { previous?.(); resolve(); }; });
+    settledRef.current = Promise.all([settledRef.current, pending]).then(() => {});
+  };
+
+  const recordedSeconds = (take: Take) =>
+    (take.activeMs + (take.resumedAt !== null ? performance.now() - take.resumedAt : 0)) / 1000;
+
+  const finishTake = () => {
+    const take = takeRef.current;
+    takeRef.current = null;
+    if (!take) return;
+    const { recorder, stream } = take;
+    if (recorder && recorder.state !== 'inactive') {
+      expectSettled(take);
+      // The last slice is delivered with the stop; the microphone is released after it
+      recorder.onstop = () => {
+        if (stream) releaseMicrophone(stream);
+        notifySaved(take);
+      };
+      recorder.stop();
+    } else if (stream) {
+      releaseMicrophone(stream);
+    }
+  };
+
+  const startTake = async (forSession: string) => {
+    const take: Take = { id: generateId(), sessionId: forSession, startTime: getElapsedRef.current(), seq: 0, stream: null, recorder: null, activeMs: 0, resumedAt: null, saved: Promise.resolve() };
+    takeRef.current = take;
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Trình duyệt không hỗ trợ lưu âm thanh cuộc họp.');
+      return;
+    }
+    try {
+      const stream = await acquireMicrophone();
+      // Stopped or switched session while the permission prompt was open
+      if (takeRef.current !== take) { releaseMicrophone(stream); return; }
+
+      const mimeType = pickRecorderMimeType();
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (ev) => {
+        if (ev.data.size === 0) return;
+        const write = onChunkRef.current(take.sessionId, {
+          take: take.id,
+          seq: take.seq++,
+          startTime: take.startTime,
+          endTime: take.startTime + recordedSeconds(take),
+          data: ev.data
+        }).catch(() => {});
+        take.saved = Promise.all([take.saved, write]).then(() => {});
+      };
+      // The slice requested before pausing is delivered ahead of this event
+      recorder.onpause = () => {
+        if (take.resumedAt !== null) take.activeMs += performance.now() - take.resumedAt;
+        take.resumedAt = null;
+        notifySaved(take);
+      };
+      recorder.onresume = () => { take.resumedAt = performance.now(); };
+
+      take.stream = stream;
+      take.recorder = recorder;
+      take.resumedAt = performance.now();
+      recorder.start(CHUNK_MS);
+      if (statusRef.current === TranscriptionStatus.PAUSED) recorder.pause();
+      setError(null);
+    } catch (e: any) {
+      if (takeRef.current === take) takeRef.current = null;
+      setError(e?.name === 'NotAllowedError'
+        ? 'Quyền truy cập Micro bị từ chối. Âm thanh cuộc họp sẽ không được lưu.'
+        : 'Lỗi thu âm Micro. Âm thanh cuộc họp sẽ không được lưu.');
+    }
+  };
+
+  useEffect(() => {
+    if (takeRef.current && takeRef.current.sessionId !== sessionId) finishTake();
+    const recorder = takeRef.current?.recorder;
+
+    if (status === TranscriptionStatus.RECORDING && sessionId) {
+      if (!takeRef.current) startTake(sessionId);
+      else if (recorder?.state === 'paused') recorder.resume();
+    } else if (status === TranscriptionStatus.PAUSED) {
+      if (recorder?.state === 'recording') { expectSettled(takeRef.current!); recorder.requestData(); recorder.pause(); }
+    } else {
+      finishTake();
+    }
+  }, [status, sessionId]);
+
+  useEffect(() => finishTake, []);
+
+  const settled = useCallback(() => settledRef.current, []);
+
+  return { error, settled };
+};
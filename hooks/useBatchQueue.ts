@@ -0,0 +1,100 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LanguageOption } from '../types';
+import { BatchJob, BatchSource, createBatchJob, runBatchJob } from '../services/batchTranscription';
+import { getProviderForRole } from '../services/providers';
+
+export interface BatchTarget {
+  sessionId: string;     // Session whose transcript the result replaces
+  sources: BatchSource[];
+  language: LanguageOption;
+}
+
+export interface QueuedJob extends BatchJob {
+  sessionId: string;
+}
+
+const isPending = (job: BatchJob) => job.status !== 'done' && job.status !== 'failed';
+
+/**
+ * Background queue of audio transcriptions. Jobs run one at a time (each one already
+ * transcribes several slices in parallel) and stay listed with their status until cleared.
+ * `onDone` stores the finished transcript; if it throws, the job is marked failed and can be retried.
+ */
+export const useBatchQueue = (onDone: (job: QueuedJob, target: BatchTarget) => Promise<void>) => {
+  const [jobs, setJobs] = useState<QueuedJob[]>([]);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  // Audio is kept out of state; a job without a target has been removed
+  const targetsRef = useRef(new Map<string, BatchTarget>());
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  const patchJob = (next: QueuedJob) => setJobs(prev => prev.map(j => j.id === next.id ? next : j));
+
+  const run = async (job: QueuedJob) => {
+    const target = targetsRef.current.get(job.id);
+    if (!target) return;
+    setRunningId(job.id);
+    // Latest state of the job, so a crash is recorded on top of the progress made so far
+    let latest = job;
+    try {
+      let result: QueuedJob;
+      try {
+        const { provider, model } = getProviderForRole('transcribe');
+        // Speakers are numbered per request, so chunked audio is transcribed without them rather than with mismatched labels
+        const transcribe = (audio: Blob, whole: boolean) => provider.transcribeFile({ model, file: audio, mimeType: audio.type || 'audio/mpeg', language: target.language, diarize: whole });
+        result = await runBatchJob(job, target.sources, transcribe, next => {
+          latest = next;
+          if (targetsRef.current.has(next.id)) patchJob(next);
+        });
+      } catch (err) {
+        console.error(err);
+        if (targetsRef.current.has(job.id)) patchJob({ ...latest, status: 'failed', error: 'Transcription stopped unexpectedly.' });
+        return;
+      }
+      if (result.status !== 'done' || !targetsRef.current.has(job.id)) return;
+      try {
+        await onDoneRef.current(result, target);
+        // Nothing left to resume, so let go of the audio
+        targetsRef.current.delete(job.id);
+      } catch (err) {
+        console.error(err);
+        patchJob({ ...result, status: 'failed', error: 'The transcript could not be saved to the session.' });
+      }
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  useEffect(() => {
+    if (runningId) return;
+    const next = jobs.find(j => j.status === 'queued');
+    if (next) run(next);
+  }, [jobs, runningId]);
+
+  // A session is only transcribed by one job at a time; returns false when one is already pending
+  const enqueue = useCallback((name: string, target: BatchTarget) => {
+    if (jobs.some(j => j.sessionId === target.sessionId && isPending(j))) return false;
+    const job: QueuedJob = { ...createBatchJob(name), sessionId: target.sessionId };
+    targetsRef.current.set(job.id, target);
+    setJobs(prev => [...prev, job]);
+    return true;
+  }, [jobs]);
+
+  // Finished slices are kept, so only what is missing is sent again
+  const retry = useCallback((id: string) => {
+    if (!targetsRef.current.has(id)) return;
+    setJobs(prev => prev.map(j => j.id === id && j.status === 'failed' ? { ...j, status: 'queued', error: undefined } : j));
+  }, []);
+
+  // A running job finishes its current requests, but its result is dropped
+  const remove = useCallback((id: string) => {
+    targetsRef.current.delete(id);
+    setJobs(prev => prev.filter(j => j.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => setJobs(prev => prev.filter(j => j.status !== 'done')), []);
+
+  const isActive = jobs.some(isPending);
+
+  return { jobs, isActive, enqueue, retry, remove, clearFinished };
+};
@@ -0,0 +1,34 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Calls `onIdle` once after `timeoutMinutes` without keyboard, pointer or touch input.
+ * A timeout of 0 disables the lock.
+ */
+export const useIdleLock = (enabled: boolean, timeoutMinutes: number, onIdle: () => void) => {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || timeoutMinutes <= 0) return;
+    const timeoutMs = timeoutMinutes * 60 * 1000;
+    let lastActivity = Date.now();
+
+    const markActive = () => { lastActivity = Date.now(); };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, markActive, { passive: true }));
+
+    // Poll instead of resetting a timer on every mouse move; also catches time spent asleep
+    const interval = window.setInterval(() => {
+      if (Date.now() - lastActivity >= timeoutMs) {
+        clearInterval(interval);
+        onIdleRef.current();
+      }
+    }, 5000);
+
+    return () => {
+      clearInterval(interval);
+      ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, markActive));
+    };
+  }, [enabled, timeoutMinutes]);
+};
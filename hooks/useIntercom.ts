@@ -0,0 +1,175 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { pickRecorderMimeType } from '../utils/blob';
+
+interface UseIntercomReturn {
+  isListening: boolean;
+  isSpeaking: boolean;
+  error: string | null;
+  startIntercom: () => Promise<void>;
+  stopIntercom: () => void;
+}
+
+// Configuration for turn detection (simple energy-based voice activity)
+const VOICE_RMS_THRESHOLD = 0.02;   // Normalised RMS above which we treat input as speech
+const TURN_SILENCE_MS = 1200;       // Same pause length the live transcript uses for a paragraph break
+const MIN_TURN_SPEECH_MS = 400;     // Ignore coughs and clicks
+const MAX_TURN_MS = 30000;          // Force a turn boundary on long monologues
+const IDLE_RESET_MS = 10000;        // Drop recorded silence so turns stay small
+const POLL_INTERVAL_MS = 100;
+
+/**
+ * Captures microphone audio as discrete conversational turns.
+ * A turn starts when the speaker's voice is detected and ends after a natural pause;
+ * each completed turn is handed to `onTurn` as a single audio Blob.
+ */
+export const useIntercom = (onTurn: (audio: Blob) => void): UseIntercomReturn => {
+  const [isListening, setIsListening] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const activeRef = useRef(false);
+  // Bumped by every teardown, so a start still waiting on the microphone knows it was cancelled
+  const startTokenRef = useRef(0);
+  const startingRef = useRef(false);
+
+  // Per-turn bookkeeping, kept in refs so the polling loop never re-renders
+  const turnStartRef = useRef(0);
+  const speechMsRef = useRef(0);
+  const lastVoiceRef = useRef(0);
+
+  const onTurnRef = useRef(onTurn);
+  useEffect(() => { onTurnRef.current = onTurn; }, [onTurn]);
+
+  const beginRecorder = useCallback(() => {
+    const stream = streamRef.current;
+    if (!stream || !activeRef.current) return;
+
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (ev) => { if (ev.data.size > 0) chunks.push(ev.data); };
+    recorder.onstop = () => {
+      const hadSpeech = speechMsRef.current >= MIN_TURN_SPEECH_MS;
+      speechMsRef.current = 0;
+      lastVoiceRef.current = 0;
+      if (hadSpeech && activeRef.current && chunks.length > 0) {
+        onTurnRef.current(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      }
+      // Immediately open the next turn so the first syllable is never clipped
+      if (activeRef.current) beginRecorder();
+    };
+
+    recorderRef.current = recorder;
+    turnStartRef.current = Date.now();
+    recorder.start();
+  }, []);
+
+  const teardown = useCallback(() => {
+    activeRef.current = false;
+    startingRef.current = false;
+    startTokenRef.current++;
+    if (pollRef.current) clearInterval(pollRef.current);
+    pollRef.current = null;
+
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.ondataavailable = null;
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+    }
+    recorderRef.current = null;
+
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    audioCtxRef.current?.close().catch(() => {});
+    audioCtxRef.current = null;
+
+    speechMsRef.current = 0;
+    lastVoiceRef.current = 0;
+    setIsSpeaking(false);
+    setIsListening(false);
+  }, []);
+
+  const startIntercom = useCallback(async () => {
+    if (activeRef.current || startingRef.current) return;
+    setError(null);
+
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+      setError('Trình duyệt không hỗ trợ thu âm. Vui lòng sử dụng Chrome hoặc Microsoft Edge.');
+      return;
+    }
+
+    const token = ++startTokenRef.current;
+    startingRef.current = true;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+      });
+      // Stopped while the permission prompt or device was still pending: release the microphone again
+      if (token !== startTokenRef.current) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      startingRef.current = false;
+      streamRef.current = stream;
+      activeRef.current = true;
+
+      const ctx = new AudioContext();
+      const analyser = ctx.createAnalyser();
+      analyser.fftSize = 1024;
+      ctx.createMediaStreamSource(stream).connect(analyser);
+      audioCtxRef.current = ctx;
+      const samples = new Float32Array(analyser.fftSize);
+
+      beginRecorder();
+      setIsListening(true);
+
+      pollRef.current = setInterval(() => {
+        const recorder = recorderRef.current;
+        if (!recorder || recorder.state !== 'recording') return;
+
+        analyser.getFloatTimeDomainData(samples);
+        let sum = 0;
+        for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+        const rms = Math.sqrt(sum / samples.length);
+
+        const now = Date.now();
+        const voiced = rms > VOICE_RMS_THRESHOLD;
+        setIsSpeaking(voiced);
+
+        if (voiced) {
+          speechMsRef.current += POLL_INTERVAL_MS;
+          lastVoiceRef.current = now;
+        }
+
+        const turnAge = now - turnStartRef.current;
+        const hasSpeech = speechMsRef.current > 0;
+
+        // Turn boundary: speaker paused long enough, or spoke for too long
+        if (hasSpeech && ((!voiced && now - lastVoiceRef.current > TURN_SILENCE_MS) || turnAge > MAX_TURN_MS)) {
+          recorder.stop();
+        } else if (!hasSpeech && turnAge > IDLE_RESET_MS) {
+          recorder.stop();
+        }
+      }, POLL_INTERVAL_MS);
+    } catch (e: any) {
+      if (token !== startTokenRef.current) return;
+      teardown();
+      setError(e?.name === 'NotAllowedError'
+        ? 'Quyền truy cập Micro bị từ chối. Vui lòng cấp quyền Micro trong cài đặt trình duyệt.'
+        : 'Lỗi thu âm Micro. Đảm bảo Micro không bị ứng dụng khác chiếm dụng.');
+    }
+  }, [beginRecorder, teardown]);
+
+  // Any half-finished turn is discarded on exit
+  const stopIntercom = useCallback(() => { teardown(); }, [teardown]);
+
+  useEffect(() => teardown, [teardown]);
+
+  return { isListening, isSpeaking, error, startIntercom, stopIntercom };
+};
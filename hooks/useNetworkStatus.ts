@@ -0,0 +1,55 @@
+import { useState, useEffect } from 'react';
+
+const PING_URL = 'https://www.google.com/generate_204';
+const PING_INTERVAL_MS = 2000;
+// A captive portal or dead uplink can leave navigator.onLine true, so failed pings count as offline too
+const FAILED_PINGS_BEFORE_OFFLINE = 2;
+
+/**
+ * Connectivity as the app sees it: the browser's online flag combined with a round-trip probe.
+ * `ping` is the last measured latency in ms, or null while unknown.
+ */
+export const useNetworkStatus = () => {
+  const [browserOnline, setBrowserOnline] = useState(navigator.onLine);
+  const [ping, setPing] = useState<number | null>(null);
+  const [failedPings, setFailedPings] = useState(0);
+
+  useEffect(() => {
+    const updateOnlineStatus = () => setBrowserOnline(navigator.onLine);
+    window.addEventListener('online', updateOnlineStatus);
+    window.addEventListener('offline', updateOnlineStatus);
+
+    return () => {
+      window.removeEventListener('online', updateOnlineStatus);
+      window.removeEventListener('offline', updateOnlineStatus);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!browserOnline) {
+      setPing(null);
+      setFailedPings(0);
+      return;
+    }
+
+    const checkPing = async () => {
+      const start = performance.now();
+      try {
+        await fetch(PING_URL, { mode: 'no-cors', cache: 'no-store' });
+        setPing(Math.round(performance.now() - start));
+        setFailedPings(0);
+      } catch (e) {
+        setPing(null);
+        setFailedPings(n => n + 1);
+      }
+    };
+
+    const interval = setInterval(checkPing, PING_INTERVAL_MS);
+    checkPing();
+
+    return () => clearInterval(interval);
+  }, [browserOnline]);
+
+  const isOnline = browserOnline && failedPings < FAILED_PINGS_BEFORE_OFFLINE;
+  return { isOnline, ping };
+};
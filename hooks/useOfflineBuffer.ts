@@ -0,0 +1,118 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { OfflineGap } from '../types';
+import { pickRecorderMimeType } from '../utils/blob';
+import { generateId } from '../utils/segments';
+import { sessionStore } from '../services/sessionStore';
+import { acquireMicrophone, releaseMicrophone } from '../services/microphone';
+
+/**
+ * Records the microphone while `active` (recording with no connection), so speech that the
+ * Web Speech API and the AI providers cannot handle offline is not lost. Each stretch of
+ * buffering becomes one `OfflineGap`; a session switch or pause closes the current gap.
+ * Every slice is written to the session store as it arrives, so gaps survive a reload or crash;
+ * once `ready` (signed in) they are listed again until `removeGap` is called. `settled()` waits
+ * until the gaps closed so far are fully stored.
+ */
+export const useOfflineBuffer = (active: boolean, sessionId: string | null, getElapsed: () => number, ready: boolean) => {
+  const [gaps, setGaps] = useState<OfflineGap[]>([]);
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getElapsedRef = useRef(getElapsed);
+  getElapsedRef.current = getElapsed;
+  // Gap being recorded right now; it is not offered for recovery until it is closed
+  const openGapRef = useRef<string | null>(null);
+  const settledRef = useRef<Promise<void>>(Promise.resolve());
+
+  const addGaps = (added: OfflineGap[]) =>
+    setGaps(prev => [...prev, ...added.filter(g => !prev.some(p => p.id === g.id))]);
+
+  useEffect(() => {
+    if (!ready) { setGaps([]); return; }
+    let cancelled = false;
+    sessionStore.loadOfflineGaps()
+      .then(stored => { if (!cancelled) addGaps(stored.filter(g => g.id !== openGapRef.current)); })
+      .catch(err => console.error('Offline audio could not be loaded', err));
+    return () => { cancelled = true; };
+  }, [ready]);
+
+  useEffect(() => {
+    if (!active || !sessionId) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let recorder: MediaRecorder | null = null;
+    const id = generateId();
+    const chunks: Blob[] = [];
+    let saved: Promise<void> = Promise.resolve();
+    const startTime = getElapsedRef.current();
+    // Wall time, not the session clock: a session switch resets the clock before this effect is cleaned up
+    const startedAt = performance.now();
+    const elapsedEnd = () => startTime + (performance.now() - startedAt) / 1000;
+    openGapRef.current = id;
+
+    (async () => {
+      if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === 'undefined') {
+        setError('Trình duyệt không hỗ trợ thu âm dự phòng khi mất mạng.');
+        return;
+      }
+      try {
+        const media = await acquireMicrophone();
+        if (cancelled) { releaseMicrophone(media); return; }
+        stream = media;
+
+        const mimeType = pickRecorderMimeType();
+        recorder = new MediaRecorder(media, mimeType ? { mimeType } : undefined);
+        recorder.ondataavailable = (ev) => {
+          if (ev.data.size === 0) return;
+          const chunk = { take: id, seq: chunks.length, startTime, endTime: elapsedEnd(), data: ev.data };
+          chunks.push(ev.data);
+          const write = sessionStore.appendOfflineChunk(sessionId, chunk).catch(err => {
+            console.error(err);
+            setError('Không thể lưu âm thanh dự phòng vào bộ nhớ. Đừng tải lại trang trước khi có mạng.');
+          });
+          saved = Promise.all([saved, write]).then(() => {});
+        };
+        recorder.start(1000);
+        setError(null);
+        setIsBuffering(true);
+      } catch (e: any) {
+        setError(e?.name === 'NotAllowedError'
+          ? 'Quyền truy cập Micro bị từ chối. Không thể ghi âm dự phòng khi mất mạng.'
+          : 'Lỗi thu âm Micro. Không thể ghi âm dự phòng khi mất mạng.');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      setIsBuffering(false);
+      const endTime = elapsedEnd();
+      let settle!: () => void;
+      const closed = new Promise<void>(resolve => { settle = resolve; });
+      settledRef.current = Promise.all([settledRef.current, closed]).then(() => {});
+      const finish = () => {
+        if (stream) releaseMicrophone(stream);
+        if (openGapRef.current === id) openGapRef.current = null;
+        if (chunks.length === 0) { settle(); return; }
+        const audio = new Blob(chunks, { type: recorder?.mimeType || 'audio/webm' });
+        // Offered for recovery once stored, so removing it afterwards also clears it from storage
+        saved.then(() => { addGaps([{ id, sessionId, startTime, endTime, audio }]); settle(); });
+      };
+      if (recorder && recorder.state !== 'inactive') {
+        // The final chunk arrives with the stop event
+        recorder.onstop = finish;
+        recorder.stop();
+      } else {
+        finish();
+      }
+    };
+  }, [active, sessionId]);
+
+  const removeGap = useCallback((id: string) => {
+    setGaps(prev => prev.filter(g => g.id !== id));
+    sessionStore.deleteOfflineGap(id).catch(err => console.error(err));
+  }, []);
+
+  const settled = useCallback(() => settledRef.current, []);
+
+  return { gaps, isBuffering, error, removeGap, settled };
+};
@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Registers the service worker of production builds and reports when a new version has been
+ * downloaded. The new version only takes over through `applyUpdate`, which reloads the page.
+ */
+export const useServiceWorker = () => {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const reloadingRef = useRef(false);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+    let registration: ServiceWorkerRegistration | undefined;
+
+    // A worker that finished installing while another one controls the page is an update
+    const track = (worker: ServiceWorker | null) => {
+      if (!worker) return;
+      const check = () => {
+        if (worker.state === 'installed' && navigator.serviceWorker.controller) setWaiting(worker);
+      };
+      check();
+      worker.addEventListener('statechange', check);
+    };
+
+    const onControllerChange = () => {
+      if (!reloadingRef.current) return;
+      window.location.reload();
+    };
+    navigator.serviceWorker.addEventListener('controllerchange', onControllerChange);
+
+    navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`)
+      .then(reg => {
+        registration = reg;
+        track(reg.waiting);
+        reg.addEventListener('updatefound', () => track(reg.installing));
+      })
+      .catch(err => console.error('Service worker registration failed', err));
+
+    const interval = setInterval(() => registration?.update().catch(() => {}), UPDATE_CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      navigator.serviceWorker.removeEventListener('controllerchange', onControllerChange);
+    };
+  }, []);
+
+  const applyUpdate = useCallback(() => {
+    if (!waiting) return;
+    reloadingRef.current = true;
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  }, [waiting]);
+
+  const dismissUpdate = useCallback(() => setWaiting(null), []);
+
+  return { updateAvailable: waiting !== null, applyUpdate, dismissUpdate };
+};
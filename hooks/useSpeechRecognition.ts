@@ -1,18 +1,20 @@
 
-import { useState, useEffect, useRef, useCallback } from 'react';
-import { TranscriptionStatus, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent } from '../types';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { TranscriptionStatus, SpeechRecognition, SpeechRecognitionEvent, SpeechRecognitionErrorEvent, TranscriptSegment } from '../types';
+import { createSegment, joinSegments } from '../utils/segments';
 
 interface UseSpeechRecognitionReturn {
   status: TranscriptionStatus;
-  text: string;
+  segments: TranscriptSegment[];
+  text: string; // Source text of all segments, one per line
   interimText: string;
   error: string | null;
   startRecording: () => void;
   pauseRecording: () => void;
   stopRecording: () => void;
   clearTranscript: () => void;
-  // Support functional updates for setText (prev => ...)
-  setText: (value: string | ((prev: string) => string)) => void;
+  // Support functional updates for setSegments (prev => ...)
+  setSegments: (value: TranscriptSegment[] | ((prev: TranscriptSegment[]) => TranscriptSegment[])) => void;
   isSupported: boolean;
 }
 
@@ -20,29 +22,61 @@ const ERROR_MAP: Record<string, { msg: string; recovery: string }> = {
   'no-speech': { msg: 'Không nghe thấy âm thanh.', recovery: 'Vui lòng kiểm tra Micro hoặc nói to hơn.' },
   'audio-capture': { msg: 'Lỗi thu âm Micro.', recovery: 'Đảm bảo Micro không bị ứng dụng khác chiếm dụng.' },
   'not-allowed': { msg: 'Quyền truy cập Micro bị từ chối.', recovery: 'Vui lòng cấp quyền Micro trong cài đặt trình duyệt.' },
-  'network': { msg: 'Lỗi kết nối mạng.', recovery: 'Kiểm tra internet để Web Speech API hoạt động.' },
+  'network': { msg: 'Lỗi kết nối mạng.', recovery: 'Âm thanh sẽ được ghi lại và xử lý khi có mạng trở lại.' },
   'not-supported': { msg: 'Trình duyệt không hỗ trợ.', recovery: 'Vui lòng sử dụng Chrome hoặc Microsoft Edge.' },
   'aborted': { msg: 'Phiên ghi âm bị ngắt.', recovery: 'Đang tự động khởi động lại...' },
 };
 
+interface SentenceStyle {
+  separator: string;   // Between sentences joined into one segment
+  punctuation: string; // Sentence-ending marks, as a regex character class body
+  period: string;      // Added to a segment that ends without one
+}
+
+// Chinese and Japanese write sentences back to back and end them with full-width marks
+const sentenceStyle = (language: string): SentenceStyle =>
+  /^(zh|ja|yue)\b/i.test(language)
+    ? { separator: '', punctuation: '。！？.!?', period: '。' }
+    : { separator: ' ', punctuation: '.!?', period: '.' };
+
+// Seal the trailing segment so the refiner and interpreter can pick it up
+const closeOpenSegment = (style: SentenceStyle) => (prev: TranscriptSegment[]): TranscriptSegment[] => {
+  const last = prev[prev.length - 1];
+  if (!last || last.closed) return prev;
+  const trimmed = last.source.trimEnd();
+  const source = trimmed.length > 0 && !new RegExp(`[${style.punctuation}]$`).test(trimmed) ? trimmed + style.period : trimmed;
+  return [...prev.slice(0, -1), { ...last, source, closed: true }];
+};
+
 // Configuration for Intelligent Segmentation
 const MAX_READABLE_LINE_LENGTH = 160; // Characters before forcing a break
 const SOFT_BREAK_THRESHOLD = 80;      // Characters after punctuation before breaking
 
-export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
+// `suspended` parks the recognizer (e.g. while offline) without leaving the RECORDING state.
+// `speaker` labels new segments; changing it ends the current segment so the next turn starts fresh.
+export const useSpeechRecognition = (language: string = 'en-US', getElapsed: () => number = () => 0, suspended: boolean = false, speaker?: string): UseSpeechRecognitionReturn => {
   const [status, setStatus] = useState<TranscriptionStatus>(TranscriptionStatus.IDLE);
-  const [text, setText] = useState<string>('');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const text = useMemo(() => joinSegments(segments, 'source'), [segments]);
   const [interimText, setInterimText] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
   const [isSupported, setIsSupported] = useState<boolean>(true);
   
-  const language = 'en-US';
   const recognitionRef = useRef<SpeechRecognition | null>(null);
   const statusRef = useRef<TranscriptionStatus>(TranscriptionStatus.IDLE);
   const restartCount = useRef(0);
+  const suspendedRef = useRef(suspended);
+  const speakerRef = useRef(speaker);
   
   const silenceTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
+  // Session clock getter; speech start is taken from the first interim result of an utterance
+  const getElapsedRef = useRef(getElapsed);
+  getElapsedRef.current = getElapsed;
+  const utteranceStartRef = useRef<number | null>(null);
+  const styleRef = useRef(sentenceStyle(language));
+  styleRef.current = sentenceStyle(language);
+
   useEffect(() => {
     statusRef.current = status;
   }, [status]);
@@ -59,18 +93,8 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
 
     if (silenceTimer.current) clearTimeout(silenceTimer.current);
 
-    // Commit on long silence (indicates end of a thematic block or speaker turn)
-    silenceTimer.current = setTimeout(() => {
-        setText(prev => {
-            let trimmed = prev.trimEnd();
-            if (trimmed.length > 0 && !/[.!?\n]$/.test(trimmed)) {
-                return trimmed + '.\n\n';
-            } else if (trimmed.length > 0 && !trimmed.endsWith('\n\n')) {
-                return trimmed + '\n\n';
-            }
-            return prev;
-        });
-    }, 1200);
+    // Commit on long silence (end of a thematic block; speaker turns are marked through `speaker`)
+    silenceTimer.current = setTimeout(() => setSegments(closeOpenSegment(styleRef.current)), 1200);
 
   }, [text, interimText, status]);
 
@@ -94,47 +118,61 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
                 else interimChunk += event.results[i][0].transcript;
             }
 
+            if (utteranceStartRef.current === null && (interimChunk || finalChunk)) {
+                utteranceStartRef.current = getElapsedRef.current();
+            }
+
             if (finalChunk) {
-                setText(prev => {
+                const spokenAt = utteranceStartRef.current ?? getElapsedRef.current();
+                const committedAt = Math.max(spokenAt, getElapsedRef.current());
+                // Words already heard for the next utterance start its clock now
+                utteranceStartRef.current = interimChunk ? committedAt : null;
+
+                setSegments(prev => {
                     let chunk = finalChunk.trim();
                     if (!chunk) return prev;
                     
                     // SEGMENTATION LOGIC:
                     // Split the incoming chunk into sentences while preserving punctuation
-                    const sentenceRegex = /([^.!?]+[.!?]\s*|[^.!?]+$)/g;
+                    const { separator, punctuation } = styleRef.current;
+                    const sentenceRegex = new RegExp(`([^${punctuation}]+[${punctuation}]\\s*|[^${punctuation}]+$)`, 'g');
                     const matches = chunk.match(sentenceRegex) || [chunk];
                     
-                    let newText = prev.trimEnd();
+                    // Spread the utterance's duration over its sentences by character share
+                    const totalChars = matches.reduce((n, m) => n + m.length, 0) || 1;
+                    let cursor = spokenAt;
+                    
+                    const next = [...prev];
 
                     matches.forEach(s => {
+                        const start = cursor;
+                        const end = cursor + (committedAt - spokenAt) * (s.length / totalChars);
+                        cursor = end;
+
                         let sentence = capitalize(s.trim());
                         if (!sentence) return;
 
-                        // Calculate properties of the current "tail" of our transcript
-                        const lines = newText.split('\n');
-                        const lastLine = lines[lines.length - 1] || '';
+                        // The "tail" of our transcript is the last segment still open for recognition
+                        const last = next[next.length - 1];
+                        const lastLine = last && !last.closed ? last.source : '';
                         
                         // Intelligent Break Decision:
-                        // 1. Hard Break: Current line is already too long (>160 chars)
-                        // 2. Soft Break: Current line has punctuation AND is reasonably long (>80 chars)
-                        const endsInPunctuation = /[.!?]$/.test(lastLine);
+                        // 1. Hard Break: Current segment is already too long (>160 chars)
+                        // 2. Soft Break: Current segment has punctuation AND is reasonably long (>80 chars)
+                        const endsInPunctuation = new RegExp(`[${punctuation}]$`).test(lastLine);
                         const shouldBreak = (endsInPunctuation && lastLine.length > SOFT_BREAK_THRESHOLD) || 
                                            (lastLine.length > MAX_READABLE_LINE_LENGTH);
 
-                        let separator = '';
-                        if (newText !== '') {
-                            if (shouldBreak) {
-                                separator = '\n';
-                            } else {
-                                // If last line ends in punctuation but is short, just add a space
-                                separator = endsInPunctuation ? ' ' : ' ';
-                            }
+                        if (!lastLine || shouldBreak) {
+                            if (last && !last.closed) next[next.length - 1] = { ...last, closed: true };
+                            next.push(createSegment(sentence, start, { endTime: end, ...(speakerRef.current ? { speaker: speakerRef.current } : {}) }));
+                        } else {
+                            next[next.length - 1] = { ...last, source: lastLine + separator + sentence, endTime: end };
                         }
-
-                        newText += separator + sentence;
                     });
                     
-                    return newText;
+                    // Late results delivered after pause/stop must not leave a segment dangling open
+                    return statusRef.current === TranscriptionStatus.RECORDING ? next : closeOpenSegment(styleRef.current)(next);
                 });
                 setInterimText(''); 
             } else {
@@ -143,6 +181,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
         };
 
         recognition.onerror = (ev: SpeechRecognitionErrorEvent) => {
+            if (suspendedRef.current) return;
             const errInfo = ERROR_MAP[ev.error] || { msg: 'Lỗi ghi âm không xác định.', recovery: 'Thử tải lại trang.' };
             setError(`${errInfo.msg} ${errInfo.recovery}`);
             
@@ -153,7 +192,7 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
         };
 
         recognition.onend = () => {
-            if (statusRef.current === TranscriptionStatus.RECORDING) {
+            if (statusRef.current === TranscriptionStatus.RECORDING && !suspendedRef.current) {
                 try { recognition.start(); } catch (e) {}
             }
         };
@@ -161,26 +200,54 @@ export const useSpeechRecognition = (): UseSpeechRecognitionReturn => {
     };
 
     recognitionRef.current = init();
+    // Switching locale mid-session hands the live capture over to the new recognizer
+    if (statusRef.current === TranscriptionStatus.RECORDING && !suspendedRef.current) {
+        try { recognitionRef.current.start(); } catch (e) {}
+    }
     return () => {
       if (recognitionRef.current) {
         recognitionRef.current.onend = null;
         recognitionRef.current.stop();
       }
     };
-  }, []); 
+  }, [language]); 
+
+  // EFFECT: Park recognition while suspended and pick it back up afterwards
+  useEffect(() => {
+    suspendedRef.current = suspended;
+    if (statusRef.current !== TranscriptionStatus.RECORDING) return;
+    if (suspended) {
+        utteranceStartRef.current = null;
+        recognitionRef.current?.stop();
+        setInterimText('');
+        setSegments(closeOpenSegment(styleRef.current));
+    } else {
+        setError(null);
+        restartCount.current = 0;
+        try { recognitionRef.current?.start(); } catch (e) {}
+    }
+  }, [suspended]);
+
+  // EFFECT: A new speaker takes the floor
+  useEffect(() => {
+    if (speakerRef.current === speaker) return;
+    speakerRef.current = speaker;
+    setSegments(closeOpenSegment(styleRef.current));
+  }, [speaker]);
 
   const startRecording = useCallback(() => {
     setError(null);
     restartCount.current = 0;
     if (recognitionRef.current) {
-        try { recognitionRef.current.start(); setStatus(TranscriptionStatus.RECORDING); }
-        catch (e) { setStatus(TranscriptionStatus.RECORDING); }
+        // Starting while suspended only runs the clock; recognition begins once the suspension lifts
+        if (!suspendedRef.current) { try { recognitionRef.current.start(); } catch (e) {} }
+        setStatus(TranscriptionStatus.RECORDING);
     }
   }, []);
 
-  const pauseRecording = useCallback(() => { setStatus(TranscriptionStatus.PAUSED); recognitionRef.current?.stop(); }, []);
-  const stopRecording = useCallback(() => { setStatus(TranscriptionStatus.STOPPED); recognitionRef.current?.stop(); setInterimText(''); }, []);
-  const clearTranscript = useCallback(() => { setText(''); setInterimText(''); setError(null); }, []);
+  const pauseRecording = useCallback(() => { utteranceStartRef.current = null; setStatus(TranscriptionStatus.PAUSED); recognitionRef.current?.stop(); setSegments(closeOpenSegment(styleRef.current)); }, []);
+  const stopRecording = useCallback(() => { utteranceStartRef.current = null; setStatus(TranscriptionStatus.STOPPED); recognitionRef.current?.stop(); setInterimText(''); setSegments(closeOpenSegment(styleRef.current)); }, []);
+  const clearTranscript = useCallback(() => { setSegments([]); setInterimText(''); setError(null); }, []);
 
-  return { status, text, interimText, error, startRecording, pauseRecording, stopRecording, clearTranscript, setText, isSupported };
+  return { status, segments, text, interimText, error, startRecording, pauseRecording, stopRecording, clearTranscript, setSegments, isSupported };
 };
@@ -0,0 +1,212 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { TranscriptSegment } from '../types';
+
+interface UseSpeechSynthesisOptions {
+  segments: TranscriptSegment[]; // Only interpretation sentences that have not been read before are spoken
+  enabled: boolean;
+  capturing: boolean; // Microphone is live; playback is held to avoid feeding back into recognition
+  locale: string;     // BCP-47 tag of the interpretation language
+  sessionKey?: string | null; // Text loaded for a different session is never read back
+}
+
+interface UseSpeechSynthesisReturn {
+  isSupported: boolean;
+  isSpeaking: boolean;
+  queueLength: number;
+  voices: SpeechSynthesisVoice[];
+  voiceURI: string;
+  setVoiceURI: (uri: string) => void;
+  rate: number;
+  setRate: (rate: number) => void;
+  pauseWhileCapturing: boolean;
+  setPauseWhileCapturing: (value: boolean) => void;
+}
+
+const PREFS_KEY = 'scribe_tts_prefs_v1';
+const MAX_UTTERANCE_LENGTH = 200;   // Chrome silently drops very long utterances
+
+interface TtsPrefs {
+  rate: number;
+  voices: Record<string, string>; // language prefix -> voiceURI
+  pauseWhileCapturing: boolean;   // Off when the listener hears us through headphones or a virtual cable
+}
+
+const DEFAULT_PREFS: TtsPrefs = { rate: 1, voices: {}, pauseWhileCapturing: true };
+
+const loadPrefs = (): TtsPrefs => {
+  try {
+    const raw = localStorage.getItem(PREFS_KEY);
+    if (raw) return { ...DEFAULT_PREFS, ...JSON.parse(raw) };
+  } catch (e) {}
+  return DEFAULT_PREFS;
+};
+
+const langPrefix = (locale: string) => locale.split('-')[0].toLowerCase();
+
+// Split into sentence-sized utterances, hard-wrapping anything longer than the engine tolerates
+const toUtterances = (chunk: string): string[] => {
+  const sentences = chunk.match(/[^.!?。！？\n]+[.!?。！？]*/g) || [];
+  const out: string[] = [];
+  sentences.forEach(raw => {
+    let s = raw.trim();
+    while (s.length > MAX_UTTERANCE_LENGTH) {
+      const cut = s.lastIndexOf(' ', MAX_UTTERANCE_LENGTH);
+      const at = cut > MAX_UTTERANCE_LENGTH / 2 ? cut : MAX_UTTERANCE_LENGTH;
+      out.push(s.slice(0, at).trim());
+      s = s.slice(at).trim();
+    }
+    if (s && /[\p{L}\p{N}]/u.test(s)) out.push(s);
+  });
+  return out;
+};
+
+// Per segment, how many of its translation's sentences have been queued
+const readUpTo = (segments: TranscriptSegment[]) =>
+  new Map(segments.map(s => [s.id, toUtterances(s.translation).length]));
+
+/**
+ * Reads new interpretation sentences aloud through `speechSynthesis`.
+ * Progress is kept per segment id and sentence position, not by wording, so a re-translation or
+ * edit of a segment that was already read stays silent and only sentences it gains are spoken.
+ * Segments present when the session opens or the reader is switched on count as heard.
+ */
+export const useSpeechSynthesis = ({ segments, enabled, capturing, locale, sessionKey = null }: UseSpeechSynthesisOptions): UseSpeechSynthesisReturn => {
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [prefs, setPrefs] = useState<TtsPrefs>(loadPrefs);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [queueLength, setQueueLength] = useState(0);
+  const paused = capturing && prefs.pauseWhileCapturing;
+
+  const queueRef = useRef<string[]>([]);
+  const currentRef = useRef<{ utterance: SpeechSynthesisUtterance; text: string } | null>(null);
+  const sessionKeyRef = useRef<string | null | undefined>(undefined); // Unset so the first pass only takes stock
+  const spokenRef = useRef(new Map<string, number>());
+
+  // Latest settings, read by the queue pump without re-subscribing
+  const settingsRef = useRef({ enabled, paused, locale, prefs, voices });
+  settingsRef.current = { enabled, paused, locale, prefs, voices };
+
+  useEffect(() => {
+    if (!isSupported) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, [isSupported]);
+
+  useEffect(() => {
+    try { localStorage.setItem(PREFS_KEY, JSON.stringify(prefs)); } catch (e) {}
+  }, [prefs]);
+
+  const localeVoices = voices.filter(v => langPrefix(v.lang) === langPrefix(locale));
+  const preferred = prefs.voices[langPrefix(locale)];
+  const voiceURI = localeVoices.find(v => v.voiceURI === preferred)?.voiceURI
+    || localeVoices.find(v => v.lang === locale)?.voiceURI
+    || localeVoices[0]?.voiceURI
+    || '';
+
+  const pump = useCallback(() => {
+    if (!isSupported) return;
+    const { enabled, paused, locale, prefs, voices } = settingsRef.current;
+    if (!enabled || paused || currentRef.current || queueRef.current.length === 0) return;
+
+    const next = queueRef.current.shift()!;
+    setQueueLength(queueRef.current.length);
+
+    const utterance = new SpeechSynthesisUtterance(next);
+    utterance.lang = locale;
+    utterance.rate = prefs.rate;
+    const chosen = prefs.voices[langPrefix(locale)];
+    const voice = voices.find(v => v.voiceURI === chosen && langPrefix(v.lang) === langPrefix(locale))
+      || voices.find(v => v.lang === locale)
+      || voices.find(v => langPrefix(v.lang) === langPrefix(locale));
+    if (voice) utterance.voice = voice;
+
+    const finish = () => {
+      // Ignore events from utterances we cancelled on purpose
+      if (currentRef.current?.utterance !== utterance) return;
+      currentRef.current = null;
+      setIsSpeaking(false);
+      pump();
+    };
+    utterance.onend = finish;
+    utterance.onerror = finish;
+
+    currentRef.current = { utterance, text: next };
+    setIsSpeaking(true);
+    window.speechSynthesis.speak(utterance);
+  }, [isSupported]);
+
+  const halt = useCallback((requeue: boolean) => {
+    const current = currentRef.current;
+    currentRef.current = null;
+    if (current && requeue) queueRef.current.unshift(current.text);
+    if (isSupported) window.speechSynthesis.cancel();
+    setIsSpeaking(false);
+    setQueueLength(queueRef.current.length);
+  }, [isSupported]);
+
+  // Detect sentences that have not been read and enqueue them
+  useEffect(() => {
+    if (sessionKeyRef.current !== sessionKey || !enabled) {
+      if (sessionKeyRef.current !== sessionKey) {
+        sessionKeyRef.current = sessionKey;
+        queueRef.current = [];
+        halt(false);
+      }
+      spokenRef.current = readUpTo(segments);
+      return;
+    }
+
+    const fresh: string[] = [];
+    segments.forEach(segment => {
+      const sentences = toUtterances(segment.translation);
+      const spoken = spokenRef.current.get(segment.id) ?? 0;
+      if (sentences.length <= spoken) return;
+      fresh.push(...sentences.slice(spoken));
+      spokenRef.current.set(segment.id, sentences.length);
+    });
+    if (fresh.length === 0) return;
+
+    queueRef.current.push(...fresh);
+    setQueueLength(queueRef.current.length);
+    pump();
+  }, [segments, enabled, sessionKey, pump, halt]);
+
+  // Turning the reader off drops anything pending; re-enabling starts from the current end of text
+  useEffect(() => {
+    if (!enabled) {
+      queueRef.current = [];
+      halt(false);
+    }
+  }, [enabled, halt]);
+
+  // Pausing interrupts the current sentence and replays it from the start on resume
+  useEffect(() => {
+    if (paused) halt(true);
+    else pump();
+  }, [paused, halt, pump]);
+
+  useEffect(() => () => { queueRef.current = []; halt(false); }, [halt]);
+
+  const setVoiceURI = useCallback((uri: string) => {
+    setPrefs(prev => ({ ...prev, voices: { ...prev.voices, [langPrefix(settingsRef.current.locale)]: uri } }));
+  }, []);
+
+  const setRate = useCallback((rate: number) => {
+    setPrefs(prev => ({ ...prev, rate }));
+  }, []);
+
+  const setPauseWhileCapturing = useCallback((pauseWhileCapturing: boolean) => {
+    setPrefs(prev => ({ ...prev, pauseWhileCapturing }));
+  }, []);
+
+  return {
+    isSupported, isSpeaking, queueLength,
+    voices: localeVoices, voiceURI, setVoiceURI,
+    rate: prefs.rate, setRate,
+    pauseWhileCapturing: prefs.pauseWhileCapturing, setPauseWhileCapturing
+  };
+};
@@ -1,15 +1,24 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { formatClock } from '../utils/time';
 
 export const useStopwatch = (isRunning: boolean) => {
   const [elapsedTime, setElapsedTime] = useState(0);
   const intervalRef = useRef<number | null>(null);
 
+  // Sub-second bookkeeping so transcript timestamps are not quantised to whole ticks
+  const elapsedRef = useRef(0);
+  const lastTickRef = useRef<number | null>(null);
+
   useEffect(() => {
     if (isRunning) {
+      lastTickRef.current = performance.now();
       intervalRef.current = window.setInterval(() => {
-        setElapsedTime((prev) => prev + 1);
+        lastTickRef.current = performance.now();
+        elapsedRef.current += 1;
+        setElapsedTime(elapsedRef.current);
       }, 1000);
     } else {
+      lastTickRef.current = null;
       if (intervalRef.current) {
         clearInterval(intervalRef.current);
       }
@@ -22,14 +31,20 @@ export const useStopwatch = (isRunning: boolean) => {
     };
   }, [isRunning]);
 
-  const resetTimer = () => setElapsedTime(0);
-
-  const formatTime = (seconds: number) => {
-    const h = Math.floor(seconds / 3600);
-    const m = Math.floor((seconds % 3600) / 60);
-    const s = seconds % 60;
-    return `${h > 0 ? h + ':' : ''}${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
+  // Reopened sessions continue their clock from the stored duration
+  const resetTimer = (seconds: number = 0) => {
+    elapsedRef.current = seconds;
+    if (lastTickRef.current !== null) lastTickRef.current = performance.now();
+    setElapsedTime(seconds);
   };
 
-  return { elapsedTime, formatTime, resetTimer };
-};
\ No newline at end of file
+  // Precise position on the session clock, in fractional seconds
+  const getElapsed = useCallback(() => {
+    const since = lastTickRef.current !== null ? (performance.now() - lastTickRef.current) / 1000 : 0;
+    return elapsedRef.current + Math.min(since, 1);
+  }, []);
+
+  const formatTime = formatClock;
+
+  return { elapsedTime, formatTime, resetTimer, getElapsed };
+};
@@ -0,0 +1,123 @@
+// Minimal Gemini proxy: forwards the app's REST calls to Google and adds the API key on
+// the server, so the key never reaches the browser.
+//
+//   GEMINI_API_KEY=... npm run proxy       # real proxy
+//   npm run proxy:stub                     # canned answers, no key or network needed
+//
+// Environment:
+//   PORT            Listen port (default 8787)
+//   GEMINI_API_KEY  Key added to upstream requests (not needed with --stub)
+//   PROXY_TOKEN     If set, clients must send it as their API key (Access Token in the app)
+//   ALLOWED_ORIGIN  CORS origin (default *)
+//   UPSTREAM_URL    Default https://generativelanguage.googleapis.com
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT || 8787);
+const API_KEY = process.env.GEMINI_API_KEY || '';
+const PROXY_TOKEN = process.env.PROXY_TOKEN || '';
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || '*';
+const UPSTREAM_URL = (process.env.UPSTREAM_URL || 'https://generativelanguage.googleapis.com').replace(/\/+$/, '');
+const STUB = process.argv.includes('--stub') || process.env.STUB === '1';
+const MAX_BODY_BYTES = 40 * 1024 * 1024; // Inline audio is base64 and can be large
+
+if (!STUB && !API_KEY) {
+  console.error('GEMINI_API_KEY is required (or start with --stub).');
+  process.exit(1);
+}
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': ALLOWED_ORIGIN,
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, x-goog-api-key, x-goog-api-client',
+  'Access-Control-Max-Age': '86400',
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) { reject(new Error('Request body too large')); req.destroy(); return; }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+// Stub answers shaped like generateContent responses. JSON requests get the last JSON array
+// in the prompt echoed back (interpretations are tagged), so segment counts always line up.
+const stubResponse = (body) => {
+  const parts = (body.contents || []).flatMap(c => c.parts || []);
+  const prompt = parts.map(p => p.text || '').join('\n');
+  const hasAudio = parts.some(p => p.inlineData);
+  const system = (body.systemInstruction?.parts || []).map(p => p.text || '').join(' ');
+  const wantsJson = body.generationConfig?.responseMimeType === 'application/json';
+
+  let text;
+  if (wantsJson) {
+    const match = prompt.match(/\[[\s\S]*\]\s*$/);
+    let items = [];
+    try { items = match ? JSON.parse(match[0]) : []; } catch { /* fall through to an empty list */ }
+    if (Array.isArray(items) && items.length > 0) {
+      text = JSON.stringify(/refine/i.test(system) ? items : items.map(item => `[stub] ${item}`));
+    } else {
+      // An object answer (the intercom's transcript + interpretation) follows the caller's schema
+      const fields = Object.keys(body.generationConfig?.responseSchema?.properties || {});
+      const heard = hasAudio ? 'Stub transcript.' : '';
+      text = JSON.stringify(Object.fromEntries(fields.map(field =>
+        [field, field === 'transcript' ? heard : heard && `[stub] ${heard}`])));
+    }
+  } else {
+    text = hasAudio ? 'Stub transcript line one.\nStub transcript line two.' : 'OK';
+  }
+
+  return {
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, finishReason: 'STOP', index: 0 }],
+    usageMetadata: { promptTokenCount: 0, candidatesTokenCount: 0, totalTokenCount: 0 },
+  };
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') { res.writeHead(204, corsHeaders); res.end(); return; }
+
+  const url = new URL(req.url || '/', `http://${req.headers.host}`);
+  if (url.pathname === '/health') return sendJson(res, 200, { ok: true, stub: STUB });
+
+  if (PROXY_TOKEN && req.headers['x-goog-api-key'] !== PROXY_TOKEN) {
+    return sendJson(res, 401, { error: { code: 401, message: 'Invalid proxy access token.' } });
+  }
+  // Only model calls are forwarded; anything else on the key's account stays unreachable
+  if (!/^\/v1(beta|alpha)?\/models\//.test(url.pathname)) {
+    return sendJson(res, 404, { error: { code: 404, message: 'Not found.' } });
+  }
+
+  try {
+    const body = req.method === 'POST' ? await readBody(req) : undefined;
+
+    if (STUB) {
+      return sendJson(res, 200, stubResponse(body?.length ? JSON.parse(body.toString('utf8')) : {}));
+    }
+
+    url.searchParams.delete('key');
+    const upstream = await fetch(`${UPSTREAM_URL}${url.pathname}${url.search}`, {
+      method: req.method,
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': API_KEY },
+      body,
+    });
+    res.writeHead(upstream.status, { ...corsHeaders, 'Content-Type': upstream.headers.get('content-type') || 'application/json' });
+    res.end(Buffer.from(await upstream.arrayBuffer()));
+  } catch (err) {
+    console.error(err);
+    sendJson(res, 502, { error: { code: 502, message: err instanceof Error ? err.message : 'Proxy error' } });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Gemini proxy${STUB ? ' (stub)' : ''} listening on http://localhost:${PORT}`);
+});
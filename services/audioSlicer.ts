@@ -0,0 +1,92 @@
+import { TARGET_SAMPLE_RATE } from '../utils/audioSlicing';
+
+// Messages exchanged with audioSlicer.worker.ts
+export type SlicerRequest =
+  | { type: 'channel'; data: Float32Array; channels: number }
+  | { type: 'analyse'; id: number }
+  | { type: 'encode'; id: number; start: number; end: number };
+
+export type SlicerMessage =
+  | { type: 'analysed'; id: number; cuts: number[]; length: number }
+  | { type: 'encoded'; id: number; audio: Blob }
+  | { type: 'error'; id: number; message: string };
+
+export interface SliceBounds {
+  startTime: number; // Seconds from the start of the file
+  endTime: number;
+}
+
+/** A decoded recording held by a worker, cut into slices that are encoded only when asked for */
+export interface SlicedAudio {
+  slices: SliceBounds[];
+  /** 16-bit mono WAV of one slice */
+  encode(index: number): Promise<Blob>;
+  /** Frees the decoded samples */
+  close(): void;
+}
+
+// Web Audio only exists on the main thread, so the file is decoded here (the browser does the work off-thread)
+// and its channels are handed over; the AudioBuffer can be collected as soon as this returns.
+const decodeInto = async (worker: Worker, file: Blob) => {
+  const buffer = await new OfflineAudioContext(1, 1, TARGET_SAMPLE_RATE).decodeAudioData(await file.arrayBuffer());
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c).slice();
+    const request: SlicerRequest = { type: 'channel', data, channels: buffer.numberOfChannels };
+    worker.postMessage(request, [data.buffer]);
+  }
+};
+
+/**
+ * Decodes any format the browser can play (audio or video) and finds where to cut it. Mixing down,
+ * the silence search and WAV encoding run in the worker, so long files do not block the UI.
+ * Callers must `close()` the result.
+ */
+export const openSlicedAudio = async (file: Blob): Promise<SlicedAudio> => {
+  const worker = new Worker(new URL('./audioSlicer.worker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, { resolve: (message: SlicerMessage) => void; reject: (err: Error) => void }>();
+  let nextId = 0;
+
+  worker.onmessage = (e: MessageEvent<SlicerMessage>) => {
+    const message = e.data;
+    const request = pending.get(message.id);
+    pending.delete(message.id);
+    if (message.type === 'error') request?.reject(new Error(message.message));
+    else request?.resolve(message);
+  };
+  worker.onerror = (e) => {
+    console.error(e);
+    pending.forEach(request => request.reject(new Error('The audio worker stopped.')));
+    pending.clear();
+  };
+
+  const call = (build: (id: number) => SlicerRequest) => new Promise<SlicerMessage>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    worker.postMessage(build(id));
+  });
+
+  let bounds: number[];
+  try {
+    await decodeInto(worker, file);
+    const analysed = await call(id => ({ type: 'analyse', id }));
+    if (analysed.type !== 'analysed') throw new Error('Unexpected reply from the audio worker.');
+    bounds = [0, ...analysed.cuts, analysed.length];
+  } catch (err) {
+    worker.terminate();
+    throw err;
+  }
+
+  return {
+    slices: bounds.slice(0, -1).map((start, i) => ({ startTime: start / TARGET_SAMPLE_RATE, endTime: bounds[i + 1] / TARGET_SAMPLE_RATE })),
+    async encode(index) {
+      const reply = await call(id => ({ type: 'encode', id, start: bounds[index], end: bounds[index + 1] }));
+      if (reply.type !== 'encoded') throw new Error('Unexpected reply from the audio worker.');
+      return reply.audio;
+    },
+    close() {
+      worker.terminate();
+      pending.forEach(request => request.reject(new Error('The audio was closed.')));
+      pending.clear();
+    }
+  };
+};
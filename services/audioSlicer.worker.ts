@@ -0,0 +1,40 @@
+// Holds one decoded recording off the main thread: mixes it to mono, finds the cut points and
+// encodes WAV slices on request (see audioSlicer.ts).
+import { findSilenceCuts, toPcm16, encodeWav } from '../utils/audioSlicing';
+import type { SlicerRequest, SlicerMessage } from './audioSlicer';
+
+let mix: Float32Array | null = null;
+let pcm: Int16Array | null = null; // Replaces `mix` once analysed
+
+const post = (message: SlicerMessage) => self.postMessage(message);
+
+const handle = (request: SlicerRequest) => {
+  switch (request.type) {
+    case 'channel': {
+      if (request.channels === 1) { mix = request.data; return; }
+      if (!mix) mix = new Float32Array(request.data.length);
+      for (let i = 0; i < request.data.length; i++) mix[i] += request.data[i] / request.channels;
+      return;
+    }
+    case 'analyse': {
+      const samples = mix || new Float32Array(0);
+      const cuts = findSilenceCuts(samples);
+      pcm = toPcm16(samples);
+      mix = null;
+      return post({ type: 'analysed', id: request.id, cuts, length: pcm.length });
+    }
+    case 'encode': {
+      if (!pcm) throw new Error('No audio has been analysed.');
+      return post({ type: 'encoded', id: request.id, audio: encodeWav(pcm.subarray(request.start, request.end)) });
+    }
+  }
+};
+
+self.onmessage = (e: MessageEvent<SlicerRequest>) => {
+  try {
+    handle(e.data);
+  } catch (err) {
+    console.error(err);
+    if (e.data.type !== 'channel') post({ type: 'error', id: e.data.id, message: 'The audio could not be processed.' });
+  }
+};
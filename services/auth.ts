@@ -0,0 +1,210 @@
+import {
+  hashPassphrase, randomBytes, toBase64, fromBase64, constantTimeEqual, PBKDF2_ITERATIONS,
+  generateVaultKey, wrapVaultKey, unwrapVaultKey, WrappedKey
+} from '../utils/crypto';
+
+export type AuthRole = 'admin' | 'member';
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: AuthRole;
+}
+
+export interface AuthSettings {
+  idleLockMinutes: number; // 0 disables the idle lock
+}
+
+/**
+ * Who may open the app. The UI only depends on this interface; the local provider below
+ * keeps salted hashes on the device, and a server-backed provider can replace it.
+ */
+export interface AuthProvider {
+  /** False until the first passphrase has been created */
+  isConfigured(): Promise<boolean>;
+  /** True when more than one account exists and the sign-in form needs a username */
+  hasMultipleUsers(): Promise<boolean>;
+  setup(username: string, passphrase: string): Promise<AuthUser>;
+  login(username: string | null, passphrase: string): Promise<AuthUser>;
+  listUsers(): Promise<AuthUser[]>;
+  addUser(username: string, passphrase: string, role?: AuthRole): Promise<AuthUser>;
+  removeUser(id: string): Promise<void>;
+  changePassphrase(id: string, current: string, next: string): Promise<void>;
+  /** Key that encrypts stored sessions, released by a successful login; null when signed out */
+  getVaultKey(): CryptoKey | null;
+  logout(): void;
+  getSettings(): AuthSettings;
+  updateSettings(settings: Partial<AuthSettings>): void;
+}
+
+/** Thrown for wrong credentials and rejected account changes; the message is shown to the user */
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+const DEFAULT_SETTINGS: AuthSettings = { idleLockMinutes: 10 };
+const LOCAL_AUTH_KEY = 'hieuai_auth_v1';
+
+interface StoredUser extends AuthUser {
+  salt: string;
+  hash: string;
+  iterations: number;
+  createdAt: number;
+  vaultKey?: WrappedKey; // Missing on accounts created before sessions were encrypted
+}
+
+interface StoredAuth {
+  users: StoredUser[];
+  settings: AuthSettings;
+}
+
+const toPublic = ({ id, username, role }: StoredUser): AuthUser => ({ id, username, role });
+
+export const createLocalAuthProvider = (storageKey = LOCAL_AUTH_KEY): AuthProvider => {
+  let vaultKey: CryptoKey | null = null;
+
+  const read = (): StoredAuth => {
+    try {
+      const parsed = JSON.parse(localStorage.getItem(storageKey) || 'null');
+      if (parsed && Array.isArray(parsed.users)) return { users: parsed.users, settings: { ...DEFAULT_SETTINGS, ...parsed.settings } };
+    } catch { /* Corrupt record: treat as unconfigured */ }
+    return { users: [], settings: DEFAULT_SETTINGS };
+  };
+  const write = (state: StoredAuth) => localStorage.setItem(storageKey, JSON.stringify(state));
+
+  const validate = (username: string, passphrase: string, users: StoredUser[]) => {
+    if (!username.trim()) throw new AuthError('Username is required.');
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) throw new AuthError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+    if (users.some(u => u.username.toLowerCase() === username.trim().toLowerCase())) throw new AuthError('That username is already taken.');
+  };
+
+  const createUser = async (username: string, passphrase: string, role: AuthRole, key: CryptoKey): Promise<StoredUser> => {
+    const salt = randomBytes(16);
+    const hash = await hashPassphrase(passphrase, salt);
+    return {
+      id: crypto.randomUUID(),
+      username: username.trim(),
+      role,
+      salt: toBase64(salt),
+      hash: toBase64(hash),
+      iterations: PBKDF2_ITERATIONS,
+      createdAt: Date.now(),
+      vaultKey: await wrapVaultKey(key, passphrase)
+    };
+  };
+
+  // Unwraps this account's copy of the vault key. The very first account to sign in after
+  // encryption was introduced generates the key; later accounts without a copy must be re-added.
+  const releaseVaultKey = async (user: StoredUser, passphrase: string, state: StoredAuth) => {
+    if (user.vaultKey) return unwrapVaultKey(user.vaultKey, passphrase);
+    if (state.users.some(u => u.vaultKey)) {
+      throw new AuthError('This account has no access to the encrypted vault. Ask an administrator to re-create it.');
+    }
+    const key = await generateVaultKey();
+    const wrapped = await wrapVaultKey(key, passphrase);
+    write({ ...state, users: state.users.map(u => u.id === user.id ? { ...u, vaultKey: wrapped } : u) });
+    return key;
+  };
+
+  const verify = async (user: StoredUser, passphrase: string) =>
+    constantTimeEqual(await hashPassphrase(passphrase, fromBase64(user.salt), user.iterations), fromBase64(user.hash));
+
+  return {
+    async isConfigured() {
+      return read().users.length > 0;
+    },
+
+    async hasMultipleUsers() {
+      return read().users.length > 1;
+    },
+
+    async setup(username, passphrase) {
+      const state = read();
+      if (state.users.length > 0) throw new AuthError('A passphrase has already been set on this device.');
+      validate(username, passphrase, []);
+      const key = await generateVaultKey();
+      const user = await createUser(username, passphrase, 'admin', key);
+      write({ ...state, users: [user] });
+      vaultKey = key;
+      return toPublic(user);
+    },
+
+    async login(username, passphrase) {
+      const state = read();
+      const { users } = state;
+      // With a single account the sign-in form only asks for the passphrase
+      const user = username === null && users.length === 1
+        ? users[0]
+        : users.find(u => u.username.toLowerCase() === (username || '').trim().toLowerCase());
+      // Hash even when the user is unknown so response time does not reveal valid usernames
+      const ok = user ? await verify(user, passphrase) : (await hashPassphrase(passphrase, randomBytes(16)), false);
+      if (!user || !ok) throw new AuthError('Incorrect username or passphrase.');
+      vaultKey = await releaseVaultKey(user, passphrase, state);
+      return toPublic(user);
+    },
+
+    async listUsers() {
+      return read().users.map(toPublic);
+    },
+
+    async addUser(username, passphrase, role = 'member') {
+      const state = read();
+      validate(username, passphrase, state.users);
+      if (!vaultKey) throw new AuthError('Sign in before adding accounts.');
+      const user = await createUser(username, passphrase, role, vaultKey);
+      write({ ...state, users: [...state.users, user] });
+      return toPublic(user);
+    },
+
+    async removeUser(id) {
+      const state = read();
+      const target = state.users.find(u => u.id === id);
+      if (!target) return;
+      if (target.role === 'admin' && state.users.filter(u => u.role === 'admin').length === 1) {
+        throw new AuthError('The last administrator cannot be removed.');
+      }
+      write({ ...state, users: state.users.filter(u => u.id !== id) });
+    },
+
+    async changePassphrase(id, current, next) {
+      const state = read();
+      const user = state.users.find(u => u.id === id);
+      if (!user || !(await verify(user, current))) throw new AuthError('Current passphrase is incorrect.');
+      if (next.length < MIN_PASSPHRASE_LENGTH) throw new AuthError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      // Re-key: the vault key is unwrapped with the old passphrase and wrapped again with the new one
+      const key = await releaseVaultKey(user, current, state);
+      const salt = randomBytes(16);
+      const updated: StoredUser = {
+        ...user,
+        salt: toBase64(salt),
+        hash: toBase64(await hashPassphrase(next, salt)),
+        iterations: PBKDF2_ITERATIONS,
+        vaultKey: await wrapVaultKey(key, next)
+      };
+      write({ ...read(), users: read().users.map(u => u.id === id ? updated : u) });
+    },
+
+    getVaultKey() {
+      return vaultKey;
+    },
+
+    logout() {
+      vaultKey = null;
+    },
+
+    getSettings() {
+      return read().settings;
+    },
+
+    updateSettings(settings) {
+      const state = read();
+      write({ ...state, settings: { ...state.settings, ...settings } });
+    },
+  };
+};
+
+export const authProvider: AuthProvider = createLocalAuthProvider();
@@ -0,0 +1,123 @@
+import { TranscriptSegment } from '../types';
+import { SlicedAudio, openSlicedAudio } from './audioSlicer';
+import { mapWithConcurrency, retryWithBackoff } from '../utils/async';
+import { generateId, segmentsFromTranscript } from '../utils/segments';
+
+export type BatchJobStatus = 'queued' | 'decoding' | 'transcribing' | 'failed' | 'done';
+
+// One recording to transcribe; `offset` places it on the session clock
+export interface BatchSource {
+  audio: Blob;
+  offset: number;
+}
+
+export interface BatchSlice {
+  index: number;
+  startTime: number;   // Session clock
+  endTime: number;
+  source: number;      // Which of the job's sources it comes from
+  part: number | null; // Slice of that source's decoded audio; null when the source is sent whole
+}
+
+/**
+ * Transcription of long audio (a file, or every take of a recorded session). Slices and finished transcripts are kept on the job,
+ * so running it again after a failure only redoes the slices that are still missing.
+ */
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  status: BatchJobStatus;
+  slices: BatchSlice[];
+  transcripts: (string | null)[]; // Per slice; null until transcribed
+  error?: string;
+}
+
+const CONCURRENCY = 3;
+// Files the browser cannot decode are sent whole, which only works while they stay small
+const MAX_UNSLICED_BYTES = 15 * 1024 * 1024;
+
+export const createBatchJob = (fileName: string): BatchJob => ({
+  id: generateId(),
+  fileName,
+  status: 'queued',
+  slices: [],
+  transcripts: []
+});
+
+export const completedSlices = (job: BatchJob) => job.transcripts.filter(t => t !== null).length;
+
+// Generic so callers can carry their own fields on the job through every update. `whole` tells
+// `transcribe` the slice is all of the job's audio; labels such as speaker numbers that a model
+// assigns per request only line up across the transcript in that case.
+export const runBatchJob = async <J extends BatchJob>(
+  job: J,
+  sources: BatchSource[],
+  transcribe: (audio: Blob, whole: boolean) => Promise<string>,
+  onUpdate: (job: J) => void
+): Promise<J> => {
+  let current: J = { ...job, error: undefined };
+  const update = (patch: Partial<BatchJob>) => { current = { ...current, ...patch }; onUpdate(current); };
+  // Decoded sources, held by workers for the length of this run only. A retry decodes again;
+  // the cuts come out the same, so the finished slices still line up.
+  const decoded = new Map<number, SlicedAudio>();
+
+  // Each slice is encoded right before it is sent, so only the slices in flight exist as WAV
+  const sliceAudio = async (slice: BatchSlice) => {
+    if (slice.part === null) return sources[slice.source].audio;
+    const audio = decoded.get(slice.source);
+    if (!audio) throw new Error('The audio could not be decoded.');
+    return audio.encode(slice.part);
+  };
+
+  try {
+    const known = current.slices.length > 0;
+    update({ status: 'decoding' });
+    const slices: BatchSlice[] = [];
+    for (let s = 0; s < sources.length; s++) {
+      const { audio, offset } = sources[s];
+      if (known && !current.slices.some((slice, i) => slice.source === s && slice.part !== null && current.transcripts[i] === null)) continue;
+      try {
+        decoded.set(s, await openSlicedAudio(audio));
+      } catch (err) {
+        console.error(err);
+        if (known) continue; // Its missing slices fail below and can be retried
+        if (audio.size > MAX_UNSLICED_BYTES) {
+          update({ status: 'failed', error: 'This file format cannot be decoded in the browser. Convert it to MP3 or WAV and try again.' });
+          return current;
+        }
+        slices.push({ index: slices.length, startTime: offset, endTime: offset, source: s, part: null });
+        continue;
+      }
+      if (!known) {
+        decoded.get(s)!.slices.forEach((bounds, part) => slices.push({
+          index: slices.length, startTime: offset + bounds.startTime, endTime: offset + bounds.endTime, source: s, part
+        }));
+      }
+    }
+    if (!known) update({ slices, transcripts: slices.map(() => null) });
+
+    update({ status: 'transcribing' });
+    const pending = current.slices.filter((_, i) => current.transcripts[i] === null);
+    const results = await mapWithConcurrency(pending, CONCURRENCY, async slice => {
+      const audio = await sliceAudio(slice);
+      const text = await retryWithBackoff(() => transcribe(audio, current.slices.length === 1));
+      const transcripts = [...current.transcripts];
+      transcripts[slice.index] = text;
+      update({ transcripts });
+    });
+
+    const failures = results.filter(r => r.status === 'rejected').length;
+    if (failures > 0) {
+      update({ status: 'failed', error: `${failures} of ${current.slices.length} chunks could not be transcribed.` });
+    } else {
+      update({ status: 'done' });
+    }
+    return current;
+  } finally {
+    decoded.forEach(audio => audio.close());
+  }
+};
+
+/** Segments for all slices, in order */
+export const stitchBatchJob = (job: BatchJob): TranscriptSegment[] =>
+  job.slices.flatMap((slice, i) => segmentsFromTranscript(job.transcripts[i] || '', slice.startTime, slice.endTime));
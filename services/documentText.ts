@@ -0,0 +1,116 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.js?url';
+
+// pdfjs-dist ships a UMD build, which bundlers may hand over as the default export
+const pdfJs: typeof pdfjsLib = (pdfjsLib as typeof pdfjsLib & { default?: typeof pdfjsLib }).default ?? pdfjsLib;
+
+// The PDF worker ships with the app bundle, so parsing works offline and under a strict CSP
+if (pdfJs.GlobalWorkerOptions) {
+  pdfJs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+}
+
+export type DocumentKind = 'pdf' | 'docx' | 'pptx' | 'xlsx' | 'epub' | 'html' | 'csv' | 'tsv' | 'text';
+
+// Messages exchanged with documentText.worker.ts
+export interface ExtractRequest {
+  kind: Exclude<DocumentKind, 'pdf'>;
+  data: ArrayBuffer;
+}
+
+export type ExtractMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; text: string }
+  | { type: 'error'; message: string };
+
+export type ExtractProgress = (done: number, total: number) => void;
+
+export class DocumentReadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentReadError';
+  }
+}
+
+export const MAX_REFERENCE_BYTES = 50 * 1024 * 1024;
+
+const KINDS: Record<string, DocumentKind> = {
+  pdf: 'pdf', docx: 'docx', pptx: 'pptx', xlsx: 'xlsx', epub: 'epub',
+  html: 'html', htm: 'html', xhtml: 'html', csv: 'csv', tsv: 'tsv', txt: 'text', md: 'text'
+};
+
+// Binary Office formats from before 2007, and what to save them as instead
+const LEGACY_FORMATS: Record<string, string> = { doc: '.docx', ppt: '.pptx', xls: '.xlsx' };
+
+export const REFERENCE_FILE_ACCEPT = Object.keys(KINDS).map(ext => `.${ext}`).join(',');
+
+const extensionOf = (name: string) => name.split('.').pop()?.toLowerCase() || '';
+
+export const documentKind = (name: string): DocumentKind | null => KINDS[extensionOf(name)] || null;
+
+const extractPdf = async (data: ArrayBuffer, onProgress: ExtractProgress) => {
+  let pdf;
+  try {
+    pdf = await pdfJs.getDocument({ data, isEvalSupported: false }).promise; // No eval under the CSP
+  } catch (e) {
+    throw new DocumentReadError(e instanceof Error && e.name === 'PasswordException' ? 'This PDF is password protected.' : 'The PDF could not be read.');
+  }
+  try {
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const textContent = await page.getTextContent();
+      // Marked-content entries only delimit structure and carry no text
+      pages.push(textContent.items
+        .filter((item: TextItem | TextMarkedContent): item is TextItem => 'str' in item)
+        .map(item => item.str + (item.hasEOL ? '\n' : ' '))
+        .join('').trim());
+      page.cleanup();
+      onProgress(i, pdf.numPages);
+    }
+    return pages.filter(Boolean).join('\n\n');
+  } finally {
+    pdf.destroy();
+  }
+};
+
+const extractInWorker = (kind: ExtractRequest['kind'], data: ArrayBuffer, onProgress: ExtractProgress) =>
+  new Promise<string>((resolve, reject) => {
+    const worker = new Worker(new URL('./documentText.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ExtractMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') return onProgress(message.done, message.total);
+      worker.terminate();
+      if (message.type === 'done') resolve(message.text);
+      else reject(new DocumentReadError(message.message));
+    };
+    worker.onerror = (e) => {
+      console.error(e);
+      worker.terminate();
+      reject(new DocumentReadError('The document reader could not be started.'));
+    };
+    const request: ExtractRequest = { kind, data };
+    worker.postMessage(request, [data]);
+  });
+
+/**
+ * Plain text of a reference document, read in full. PDFs are parsed by pdf.js's worker and the
+ * other formats by documentText.worker.ts, so large files do not block the UI.
+ * Fails with a DocumentReadError whose message can be shown to the user.
+ */
+export const extractDocumentText = async (file: File, onProgress: ExtractProgress = () => {}): Promise<string> => {
+  const ext = extensionOf(file.name);
+  if (LEGACY_FORMATS[ext]) {
+    throw new DocumentReadError(`Old .${ext} files cannot be read. Save it as ${LEGACY_FORMATS[ext]} and add it again.`);
+  }
+  const kind = documentKind(file.name);
+  if (!kind) throw new DocumentReadError('Unsupported file type.');
+  if (file.size > MAX_REFERENCE_BYTES) throw new DocumentReadError(`File is too large. Please use files under ${MAX_REFERENCE_BYTES / 1024 / 1024}MB.`);
+
+  const data = await file.arrayBuffer();
+  const text = kind === 'pdf' ? await extractPdf(data, onProgress) : await extractInWorker(kind, data, onProgress);
+  if (!text.trim()) {
+    throw new DocumentReadError(kind === 'pdf' ? 'No text found. Scanned PDFs need text recognition (OCR) first.' : 'No text found in this file.');
+  }
+  return text;
+};
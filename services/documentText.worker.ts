@@ -0,0 +1,227 @@
+// Extracts plain text from reference documents off the main thread. PDFs are not handled here:
+// pdf.js already parses in its own worker (see documentText.ts).
+import * as mammoth from 'mammoth';
+import JSZip from 'jszip';
+import { parseCsv } from '../utils/csv';
+import type { ExtractRequest, ExtractMessage } from './documentText';
+
+// Thrown for problems the user can act on; anything else is reported generically
+class UnreadableError extends Error {}
+
+const post = (message: ExtractMessage) => self.postMessage(message);
+const progress = (done: number, total: number) => post({ type: 'progress', done, total });
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+  const name = entity.toLowerCase();
+  if (name[0] !== '#') return ENTITIES[name] ?? match;
+  const code = name[1] === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+  return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+});
+
+const tidy = (text: string) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+// Markup to text without a DOM (workers have no DOMParser); block ends become line breaks
+const htmlToText = (html: string) => tidy(decodeEntities(html
+  .replace(/<(script|style|head|svg|noscript)\b[\s\S]*?<\/\1>/gi, ' ')
+  .replace(/<!--[\s\S]*?-->/g, ' ')
+  .replace(/<\/t[dh]>(?=\s*<\/tr>)/gi, '')
+  .replace(/<\/t[dh]>/gi, ' | ')
+  .replace(/<br\b[^>]*>|<\/(li|tr|dt|dd)>/gi, '\n')
+  .replace(/<\/(p|div|h[1-6]|section|article|blockquote|pre|table|ul|ol|figcaption|header|footer)>/gi, '\n\n')
+  .replace(/<[^>]+>/g, '')));
+
+const isNumeric = (cell: string) => /^[-+()$€£¥%.,\d\s]+$/.test(cell);
+
+// Rows as text; with a header row each value is labelled, so a figure keeps its meaning out of context
+const tableToText = (rows: string[][]) => {
+  const filled = rows.map(row => row.map(cell => cell.replace(/\s+/g, ' ').trim())).filter(row => row.some(Boolean));
+  const [header, ...body] = filled;
+  const hasHeader = !!header && body.length > 0 && header.filter(Boolean).length > 1 && !header.some(c => c && isNumeric(c));
+  if (!hasHeader) return filled.map(row => row.filter(Boolean).join(' | ')).join('\n');
+  return body
+    .map(row => row.map((cell, i) => cell && (header[i] ? `${header[i]}: ${cell}` : cell)).filter(Boolean).join('; '))
+    .join('\n');
+};
+
+const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+
+// Resolves `href` against the part that refers to it, as package relationships and OPF manifests do
+const resolvePath = (from: string, href: string) => {
+  if (href.startsWith('/')) return href.slice(1);
+  const parts = from.split('/').slice(0, -1);
+  decodeURIComponent(href.split('#')[0]).split('/').forEach(segment => {
+    if (segment === '..') parts.pop();
+    else if (segment && segment !== '.') parts.push(segment);
+  });
+  return parts.join('/');
+};
+
+// Relationship id -> target path for an OOXML part
+const readRelationships = async (zip: JSZip, part: string) => {
+  const dir = part.split('/').slice(0, -1).join('/');
+  const name = part.split('/').pop();
+  const xml = await zip.file(`${dir ? `${dir}/` : ''}_rels/${name}.rels`)?.async('string') || '';
+  const targets = new Map<string, string>();
+  (xml.match(/<Relationship\b[^>]*>/g) || []).forEach(tag => {
+    const id = attr(tag, 'Id');
+    const target = attr(tag, 'Target');
+    if (id && target && attr(tag, 'TargetMode') !== 'External') targets.set(id, resolvePath(part, target));
+  });
+  return targets;
+};
+
+// Old binary Office files (and password-protected new ones) are OLE compound documents
+const isCompoundFile = (data: ArrayBuffer) => {
+  const head = new Uint8Array(data, 0, Math.min(8, data.byteLength));
+  return [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1].every((b, i) => head[i] === b);
+};
+
+const rejectCompoundFile = (data: ArrayBuffer) => {
+  if (isCompoundFile(data)) {
+    throw new UnreadableError('This is an old binary or password-protected Office file. Remove the password or save it in the current format (.docx, .pptx, .xlsx) and add it again.');
+  }
+};
+
+const openZip = async (data: ArrayBuffer) => {
+  rejectCompoundFile(data);
+  try {
+    return await JSZip.loadAsync(data);
+  } catch {
+    throw new UnreadableError('The file is damaged or is not the format its extension says.');
+  }
+};
+
+const drawingParagraphs = (xml: string) => (xml.match(/<a:p\b[^>]*>[\s\S]*?<\/a:p>/g) || [])
+  .map(p => decodeEntities((p.match(/<a:t(?:\s[^>]*)?>[\s\S]*?<\/a:t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join('')).trim())
+  .filter(Boolean);
+
+const extractPptx = async (data: ArrayBuffer) => {
+  const zip = await openZip(data);
+  const presentation = await zip.file('ppt/presentation.xml')?.async('string');
+  if (!presentation) throw new UnreadableError('No slides found in this presentation.');
+  const rels = await readRelationships(zip, 'ppt/presentation.xml');
+  const slides = (presentation.match(/<p:sldId\b[^>]*>/g) || [])
+    .map(tag => rels.get(attr(tag, 'r:id') || ''))
+    .filter((path): path is string => !!path);
+
+  const texts: string[] = [];
+  for (let i = 0; i < slides.length; i++) {
+    const xml = await zip.file(slides[i])?.async('string') || '';
+    const notesPath = Array.from((await readRelationships(zip, slides[i])).values()).find(path => /notesSlide\d*\.xml$/.test(path));
+    const notes = notesPath ? drawingParagraphs(await zip.file(notesPath)?.async('string') || '')
+      .filter(line => !/^\d+$/.test(line)) : []; // Drop the slide-number placeholder
+    const body = drawingParagraphs(xml);
+    if (body.length || notes.length) {
+      texts.push([`Slide ${i + 1}`, ...body, ...(notes.length ? [`Notes: ${notes.join(' ')}`] : [])].join('\n'));
+    }
+    progress(i + 1, slides.length);
+  }
+  return texts.join('\n\n');
+};
+
+// "BC12" -> 54 (zero-based column)
+const columnIndex = (ref: string) => (ref.match(/^[A-Z]+/)?.[0] || 'A').split('').reduce((n, c) => n * 26 + c.charCodeAt(0) - 64, 0) - 1;
+
+const extractXlsx = async (data: ArrayBuffer) => {
+  const zip = await openZip(data);
+  const workbook = await zip.file('xl/workbook.xml')?.async('string');
+  if (!workbook) throw new UnreadableError('No worksheets found in this workbook.');
+  const rels = await readRelationships(zip, 'xl/workbook.xml');
+  const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string') || '';
+  const shared = (sharedXml.match(/<si>[\s\S]*?<\/si>/g) || []).map(si =>
+    (si.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join(''));
+
+  const sheets = (workbook.match(/<sheet\b[^>]*>/g) || []).map(tag => ({
+    name: decodeEntities(attr(tag, 'name') || ''),
+    path: rels.get(attr(tag, 'r:id') || '')
+  }));
+
+  const texts: string[] = [];
+  for (let i = 0; i < sheets.length; i++) {
+    const xml = sheets[i].path ? await zip.file(sheets[i].path!)?.async('string') || '' : '';
+    const rows = (xml.match(/<row\b[^>]*>[\s\S]*?<\/row>/g) || []).map(row => {
+      const cells: string[] = [];
+      (row.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || []).forEach((cell, position) => {
+        const open = cell.match(/^<c\b[^>]*>/)?.[0] || '';
+        const ref = attr(open, 'r');
+        const type = attr(open, 't');
+        const value = cell.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+        const text = type === 's' ? shared[Number(value)] ?? ''
+          : type === 'b' ? (value === '1' ? 'TRUE' : 'FALSE')
+          : type === 'inlineStr' ? (cell.match(/<t(?:\s[^>]*)?>[\s\S]*?<\/t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join('')
+          : value ?? '';
+        cells[ref ? columnIndex(ref) : position] = decodeEntities(text);
+      });
+      return Array.from(cells, cell => cell ?? '');
+    });
+    const table = tableToText(rows);
+    if (table) texts.push(`Sheet: ${sheets[i].name}\n${table}`);
+    progress(i + 1, sheets.length);
+  }
+  return texts.join('\n\n');
+};
+
+const extractEpub = async (data: ArrayBuffer) => {
+  const zip = await openZip(data);
+  const container = await zip.file('META-INF/container.xml')?.async('string') || '';
+  const opfPath = attr(container.match(/<rootfile\b[^>]*>/)?.[0] || '', 'full-path');
+  const opf = opfPath ? await zip.file(opfPath)?.async('string') : undefined;
+  if (!opfPath || !opf) throw new UnreadableError('This e-book has no readable table of contents.');
+
+  const manifest = new Map<string, string>();
+  (opf.match(/<item\b[^>]*>/g) || []).forEach(tag => {
+    const id = attr(tag, 'id');
+    const href = attr(tag, 'href');
+    if (id && href && /html/.test(attr(tag, 'media-type') || '')) manifest.set(id, resolvePath(opfPath, href));
+  });
+  const chapters = (opf.match(/<itemref\b[^>]*>/g) || [])
+    .map(tag => manifest.get(attr(tag, 'idref') || ''))
+    .filter((path): path is string => !!path);
+
+  const texts: string[] = [];
+  for (let i = 0; i < chapters.length; i++) {
+    const html = await zip.file(chapters[i])?.async('string');
+    if (html) texts.push(htmlToText(html));
+    progress(i + 1, chapters.length);
+  }
+  return texts.filter(Boolean).join('\n\n');
+};
+
+const extractDocx = async (data: ArrayBuffer) => {
+  rejectCompoundFile(data);
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  progress(1, 1);
+  return result.value;
+};
+
+const decodeText = (data: ArrayBuffer) => new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '');
+
+const extract = ({ kind, data }: ExtractRequest): Promise<string> | string => {
+  switch (kind) {
+    case 'docx': return extractDocx(data);
+    case 'pptx': return extractPptx(data);
+    case 'xlsx': return extractXlsx(data);
+    case 'epub': return extractEpub(data);
+    case 'html': return htmlToText(decodeText(data));
+    case 'csv': return tableToText(parseCsv(decodeText(data)));
+    case 'tsv': return tableToText(parseCsv(decodeText(data), '\t'));
+    case 'text': return decodeText(data);
+  }
+};
+
+self.onmessage = async (e: MessageEvent<ExtractRequest>) => {
+  try {
+    post({ type: 'done', text: await extract(e.data) });
+  } catch (err) {
+    if (err instanceof UnreadableError) return post({ type: 'error', message: err.message });
+    console.error(err);
+    post({ type: 'error', message: 'The document could not be read.' });
+  }
+};
@@ -0,0 +1,62 @@
+import { GoogleGenAI } from "@google/genai";
+
+export type AiConnectionMode = 'direct' | 'proxy';
+
+export interface AiConnectionSettings {
+  mode: AiConnectionMode;
+  apiKey: string;     // Pasted by the user; used in direct mode
+  proxyUrl: string;   // Base URL of a proxy that adds the key server-side
+  proxyToken: string; // Optional shared secret the proxy checks (sent as the API key header)
+}
+
+const SETTINGS_KEY = 'hieuai_ai_connection_v1';
+
+// Build-time defaults. A key is only compiled in for dev builds or when the build opts in (see vite.config.ts).
+const BUNDLED_API_KEY = process.env.API_KEY || '';
+const DEFAULT_PROXY_URL = process.env.GEMINI_PROXY_URL || '';
+
+const defaults = (): AiConnectionSettings => ({
+  mode: DEFAULT_PROXY_URL ? 'proxy' : 'direct',
+  apiKey: '',
+  proxyUrl: DEFAULT_PROXY_URL,
+  proxyToken: ''
+});
+
+export const loadAiSettings = (): AiConnectionSettings => {
+  try {
+    return { ...defaults(), ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return defaults();
+  }
+};
+
+export const saveAiSettings = (settings: AiConnectionSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const hasBundledApiKey = () => BUNDLED_API_KEY !== '';
+
+/** Whether AI calls can be made with the current settings */
+export const isAiConfigured = (settings = loadAiSettings()) =>
+  settings.mode === 'proxy' ? settings.proxyUrl.trim() !== '' : (settings.apiKey.trim() || BUNDLED_API_KEY) !== '';
+
+/**
+ * Client for every Gemini call in the app. In proxy mode requests go to `proxyUrl` with the
+ * same paths as the public API, and the proxy swaps in the real key.
+ */
+export const createGenAI = (settings = loadAiSettings()) => {
+  if (settings.mode === 'proxy') {
+    return new GoogleGenAI({
+      apiKey: settings.proxyToken.trim() || 'proxy',
+      httpOptions: { baseUrl: settings.proxyUrl.trim().replace(/\/+$/, '') }
+    });
+  }
+  return new GoogleGenAI({ apiKey: settings.apiKey.trim() || BUNDLED_API_KEY });
+};
+
+/** Cheapest possible round trip, used by the settings panel to check a key or proxy */
+export const testAiConnection = async (settings: AiConnectionSettings) => {
+  const ai = createGenAI(settings);
+  const res = await ai.models.generateContent({ model: 'gemini-flash-lite-latest', contents: 'Reply with OK.' });
+  return (res.text || '').trim();
+};
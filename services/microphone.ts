@@ -0,0 +1,43 @@
+// One microphone stream shared by everything that records during capture (meeting audio and
+// the offline buffer), so the device is opened once and the permission prompt shown once.
+
+const CONSTRAINTS: MediaStreamConstraints = {
+  audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+};
+
+interface SharedStream {
+  request: Promise<MediaStream>;
+  stream: MediaStream | null;
+  users: number;
+}
+
+let shared: SharedStream | null = null;
+
+const isEnded = (stream: MediaStream) => stream.getAudioTracks().every(t => t.readyState === 'ended');
+
+/** Resolves to the shared stream. Every successful call must be paired with `releaseMicrophone`. */
+export const acquireMicrophone = async (): Promise<MediaStream> => {
+  // A device that was unplugged or revoked is opened again
+  if (!shared || (shared.stream && isEnded(shared.stream))) {
+    const entry: SharedStream = { request: navigator.mediaDevices.getUserMedia(CONSTRAINTS), stream: null, users: 0 };
+    entry.request.then(stream => { entry.stream = stream; }, () => { if (shared === entry) shared = null; });
+    shared = entry;
+  }
+  const entry = shared;
+  entry.users++;
+  try {
+    return await entry.request;
+  } catch (e) {
+    entry.users--;
+    throw e;
+  }
+};
+
+/** The tracks stop once the last user has let go */
+export const releaseMicrophone = (stream: MediaStream) => {
+  const entry = shared;
+  // A stream that was replaced after its device went away has nothing left to stop
+  if (!entry || entry.stream !== stream || --entry.users > 0) return;
+  shared = null;
+  stream.getTracks().forEach(t => t.stop());
+};
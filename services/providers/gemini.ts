@@ -0,0 +1,47 @@
+import { Type } from "@google/genai";
+import { createGenAI } from '../genai';
+import { fileToBase64 } from '../../utils/blob';
+import { AiProvider } from './types';
+import { refinePrompt, translatePrompt, parseStringArray, transcribeInstruction } from './prompts';
+
+const STRING_ARRAY_SCHEMA = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+export const createGeminiProvider = (): AiProvider => ({
+  id: 'gemini',
+
+  async refine(request) {
+    const { system, user } = refinePrompt(request);
+    const res = await createGenAI().models.generateContent({
+      model: request.model,
+      contents: user,
+      config: { systemInstruction: system, temperature: 0.1, responseMimeType: 'application/json', responseSchema: STRING_ARRAY_SCHEMA }
+    });
+    return parseStringArray(res.text || '[]');
+  },
+
+  async translate(request) {
+    const { system, user } = translatePrompt(request);
+    const isBatch = request.mode === 'batch';
+    const res = await createGenAI().models.generateContent({
+      model: request.model,
+      contents: user,
+      config: {
+        systemInstruction: system,
+        temperature: isBatch ? 0.2 : 0.1,
+        responseMimeType: 'application/json',
+        responseSchema: STRING_ARRAY_SCHEMA,
+        ...(isBatch ? { thinkingConfig: { thinkingBudget: 8192 } } : {})
+      }
+    });
+    return parseStringArray(res.text || '[]');
+  },
+
+  async transcribeFile({ model, file, mimeType, language, diarize }) {
+    const data = await fileToBase64(file);
+    const res = await createGenAI().models.generateContent({
+      model,
+      contents: { parts: [{ inlineData: { data, mimeType } }, { text: transcribeInstruction({ language, diarize }) }] }
+    });
+    return res.text || '';
+  },
+});
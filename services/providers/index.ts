@@ -0,0 +1,75 @@
+import { isAiConfigured } from '../genai';
+import { AiProvider, AiRole, ProviderId } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAiCompatibleProvider, OpenAiCompatibleConfig } from './openaiCompatible';
+
+export * from './types';
+export { listOpenAiCompatibleModels } from './openaiCompatible';
+
+export interface RoleAssignment {
+  provider: ProviderId;
+  model: string;
+}
+
+export interface ProviderSettings {
+  roles: Record<AiRole, RoleAssignment>;
+  openai: OpenAiCompatibleConfig;
+}
+
+const SETTINGS_KEY = 'hieuai_ai_providers_v1';
+
+export const ROLE_LABELS: Record<AiRole, string> = {
+  refine: 'Transcript Refiner',
+  translate: 'Live Interpretation',
+  batchTranslate: 'Batch Translation',
+  transcribe: 'Audio File Transcription',
+};
+
+// Suggestions shown in the model picker; any model id can be typed
+export const MODEL_SUGGESTIONS: Record<ProviderId, string[]> = {
+  gemini: ['gemini-flash-lite-latest', 'gemini-flash-latest', 'gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-3-pro-preview', 'gemini-2.5-flash-native-audio-preview-12-2025'],
+  openai: ['gpt-4o-mini', 'gpt-4o', 'whisper-1', 'llama3.1', 'qwen2.5'],
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  roles: {
+    refine: { provider: 'gemini', model: 'gemini-flash-lite-latest' },
+    translate: { provider: 'gemini', model: 'gemini-flash-lite-latest' },
+    batchTranslate: { provider: 'gemini', model: 'gemini-3-pro-preview' },
+    transcribe: { provider: 'gemini', model: 'gemini-2.5-flash-native-audio-preview-12-2025' },
+  },
+  openai: { baseUrl: 'http://localhost:11434/v1', apiKey: '' },
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      roles: { ...DEFAULT_PROVIDER_SETTINGS.roles, ...stored.roles },
+      openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...stored.openai },
+    };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+const providers: Record<ProviderId, AiProvider> = {
+  gemini: createGeminiProvider(),
+  openai: createOpenAiCompatibleProvider(() => loadProviderSettings().openai),
+};
+
+/** Provider and model currently assigned to a role */
+export const getProviderForRole = (role: AiRole) => {
+  const { provider, model } = loadProviderSettings().roles[role];
+  return { provider: providers[provider], model };
+};
+
+export const isRoleConfigured = (role: AiRole, settings = loadProviderSettings()) => {
+  const { provider, model } = settings.roles[role];
+  if (!model.trim()) return false;
+  return provider === 'gemini' ? isAiConfigured() : settings.openai.baseUrl.trim() !== '';
+};
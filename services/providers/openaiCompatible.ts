@@ -0,0 +1,82 @@
+import { AiProvider } from './types';
+import { refinePrompt, translatePrompt, parseStringArray } from './prompts';
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://localhost:11434/v1 or https://api.openai.com/v1
+  apiKey: string;  // Optional for most local servers
+}
+
+/** Error carrying the HTTP status so retryWithBackoff can recognise 429s */
+class ProviderHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ProviderHttpError';
+  }
+}
+
+/**
+ * Any server speaking the OpenAI REST dialect: `/chat/completions` for text and
+ * `/audio/transcriptions` (Whisper-style) for files. Works with llama.cpp, Ollama, vLLM, LM Studio.
+ */
+export const createOpenAiCompatibleProvider = (getConfig: () => OpenAiCompatibleConfig): AiProvider => {
+  const endpoint = (path: string) => `${getConfig().baseUrl.trim().replace(/\/+$/, '')}${path}`;
+  const authHeaders = (): Record<string, string> => {
+    const key = getConfig().apiKey.trim();
+    return key ? { Authorization: `Bearer ${key}` } : {};
+  };
+
+  const request = async (path: string, init: RequestInit) => {
+    const res = await fetch(endpoint(path), { ...init, headers: { ...authHeaders(), ...init.headers } });
+    if (!res.ok) throw new ProviderHttpError(res.status, `${res.status} ${res.statusText}: ${(await res.text()).slice(0, 200)}`);
+    return res.json();
+  };
+
+  const chat = async (model: string, system: string, user: string, temperature: number) => {
+    const body = await request('/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model,
+        temperature,
+        messages: [{ role: 'system', content: system }, { role: 'user', content: user }]
+      })
+    });
+    return String(body?.choices?.[0]?.message?.content ?? '');
+  };
+
+  return {
+    id: 'openai',
+
+    async refine(req) {
+      const { system, user } = refinePrompt(req);
+      return parseStringArray(await chat(req.model, system, user, 0.1));
+    },
+
+    async translate(req) {
+      const { system, user } = translatePrompt(req);
+      return parseStringArray(await chat(req.model, system, user, req.mode === 'batch' ? 0.2 : 0.1));
+    },
+
+    async transcribeFile({ model, file, mimeType, language }) {
+      const form = new FormData();
+      const extension = mimeType.split('/')[1]?.split(';')[0] || 'webm';
+      form.append('file', file instanceof File ? file : new File([file], `audio.${extension}`, { type: mimeType }));
+      form.append('model', model);
+      form.append('language', language.code);
+      const body = await request('/audio/transcriptions', { method: 'POST', body: form });
+      // Whisper-style servers return one block without speakers (`diarize` is not supported);
+      // break it into sentences like the Gemini transcript
+      return String(body?.text ?? '').replace(/([.!?。！？])\s+/g, '$1\n');
+    },
+  };
+};
+
+/** Lists the server's models; used by the settings panel as a connectivity check */
+export const listOpenAiCompatibleModels = async ({ baseUrl, apiKey }: OpenAiCompatibleConfig): Promise<string[]> => {
+  const res = await fetch(`${baseUrl.trim().replace(/\/+$/, '')}/models`, {
+    headers: apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}
+  });
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  const body = await res.json();
+  return Array.isArray(body?.data) ? body.data.map((m: { id: string }) => m.id) : [];
+};
@@ -0,0 +1,45 @@
+import { GlossaryEntry } from '../../types';
+import { RefineRequest, TranslateRequest, TranscribeRequest } from './types';
+
+// Shared by every provider so switching back-ends does not change what the model is asked
+
+const refineGlossary = (glossary: GlossaryEntry[] = []) => glossary.length === 0 ? '' :
+  ` Spell these terms exactly as written when they are spoken: ${JSON.stringify(glossary.map(e => e.source.trim()))}.`;
+
+const translateGlossary = (glossary: GlossaryEntry[] = []) => {
+  const rendered = glossary.filter(e => !e.doNotTranslate && e.target.trim()).map(e => `"${e.source.trim()}" -> "${e.target.trim()}"`);
+  const kept = glossary.filter(e => e.doNotTranslate).map(e => `"${e.source.trim()}"`);
+  return (rendered.length ? ` Mandatory glossary, always use these renderings: ${rendered.join('; ')}.` : '') +
+    (kept.length ? ` Never translate these terms, keep them exactly as written: ${kept.join(', ')}.` : '');
+};
+
+export const refinePrompt = ({ segments, language, context, glossary }: RefineRequest) => ({
+  system: `You are a transcript refiner. Fix punctuation, capitalization, and minor speech-to-text homophone errors. Context: ${context}. Language: ${language.name}. DO NOT paraphrase. DO NOT translate.${refineGlossary(glossary)} You receive a JSON array of transcript segments; return a JSON array with exactly one refined ${language.name} string per input segment, in the same order.`,
+  user: `Refine these speech segments: ${JSON.stringify(segments)}`
+});
+
+// Excerpts of the meeting's reference document, numbered so the model can tell them apart
+const translateReferences = (references: string[] = []) => references.length === 0 ? '' :
+  `\n\nReference excerpts from the meeting documents. Use them only for names, figures and terminology; do not translate them:\n${references.map((r, i) => `[${i + 1}] ${r}`).join('\n')}`;
+
+export const translatePrompt = ({ segments, source, target, context, mode, speakers, glossary, references }: TranslateRequest) => {
+  const labelled = speakers?.some(Boolean);
+  return {
+    system: `Expert Simultaneous Interpreter (${source.label} -> ${target.label}). Source language: ${source.name}. Target language: ${target.name}. Context: ${context}. Rules: Final ${target.name} ONLY. Focus on semantics. Keep technical terms as spoken in ${source.name}.${translateGlossary(glossary)} You receive a JSON array of consecutive segments; return a JSON array with exactly one interpretation per input segment, in the same order.${labelled ? ' Segments come from several speakers: keep each speaker\'s register and form of address consistent, and do not add speaker names to the output.' : ''}`,
+    user: `${mode === 'batch' ? "Batch Translate the following segments precisely:" : "Interpret these segments:"}\n\n${JSON.stringify(segments)}${labelled ? `\n\nSpeaker of each segment, in the same order: ${JSON.stringify(speakers)}` : ''}${translateReferences(references)}`
+  };
+};
+
+export const transcribeInstruction = ({ language, diarize }: Pick<TranscribeRequest, 'language' | 'diarize'>) =>
+  `Transcribe the ${language.name} audio verbatim, one utterance per line, without timestamps.` +
+  (diarize ? ' Start every line with the speaker, as "Speaker 1:", "Speaker 2:" and so on, numbered in order of first appearance and kept consistent for the same voice.' : '');
+
+/** Pulls a JSON string array out of a model reply, tolerating code fences or chatter around it */
+export const parseStringArray = (reply: string): string[] => {
+  const start = reply.indexOf('[');
+  const end = reply.lastIndexOf(']');
+  if (start === -1 || end <= start) throw new Error('Model reply contained no JSON array');
+  const parsed = JSON.parse(reply.slice(start, end + 1));
+  if (!Array.isArray(parsed)) throw new Error('Model reply was not an array');
+  return parsed.map(item => String(item ?? ''));
+};
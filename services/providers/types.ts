@@ -0,0 +1,46 @@
+import { LanguageOption, GlossaryEntry } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai';
+
+// Each role can run on a different provider/model
+export type AiRole = 'refine' | 'translate' | 'batchTranslate' | 'transcribe';
+
+export interface RefineRequest {
+  model: string;
+  segments: string[];
+  language: LanguageOption;
+  context: string;
+  glossary?: GlossaryEntry[]; // Entries that occur in `segments`
+}
+
+export interface TranslateRequest {
+  model: string;
+  segments: string[];
+  source: LanguageOption;
+  target: LanguageOption;
+  context: string;
+  mode: 'realtime' | 'batch';
+  speakers?: string[]; // Speaker name per segment ('' when unknown), so turns are interpreted in the right voice
+  glossary?: GlossaryEntry[]; // Entries that occur in `segments`
+  references?: string[]; // Passages of the session's reference document relevant to `segments`
+}
+
+export interface TranscribeRequest {
+  model: string;
+  file: Blob;
+  mimeType: string;
+  language: LanguageOption;
+  diarize?: boolean; // Ask for "Speaker N:" turn labels where the back-end can tell voices apart
+}
+
+/**
+ * Text and speech back-end. `refine` and `translate` return one string per input segment, in
+ * order; callers discard answers whose length does not match.
+ */
+export interface AiProvider {
+  id: ProviderId;
+  refine(request: RefineRequest): Promise<string[]>;
+  translate(request: TranslateRequest): Promise<string[]>;
+  /** Plain transcript, one utterance per line */
+  transcribeFile(request: TranscribeRequest): Promise<string>;
+}
@@ -0,0 +1,448 @@
+import { SessionMetadata, SessionData, SessionSearchDoc, AudioChunk, AudioTake, OfflineGap } from '../types';
+import { buildSearchDoc } from '../utils/search';
+import { encryptJson, decryptJson, encryptBytes, decryptBytes, isEncryptedPayload, EncryptedPayload } from '../utils/crypto';
+import { AuthUser } from './auth';
+
+/**
+ * Persistence for the Meeting Vault. App code only talks to this interface so the
+ * backing store can change without touching the UI.
+ */
+export interface SessionStore {
+  listSessions(): Promise<SessionMetadata[]>;
+  loadSession(id: string): Promise<SessionData | null>;
+  /** Writes metadata and (optionally) the session body in one transaction */
+  saveSession(meta: SessionMetadata, data?: SessionData): Promise<void>;
+  /** Saves over any session with the same id, dropping its recorded and offline audio in the same transaction */
+  replaceSession(meta: SessionMetadata, data: SessionData): Promise<void>;
+  /** Does the encryption of a save ahead of time, for `writeSealedSession` */
+  sealSession(meta: SessionMetadata, data: SessionData): Promise<SealedSession>;
+  /**
+   * Writes a sealed save. Once the database is open the transaction is started before this
+   * returns, so it still commits when called from a `pagehide` handler that cannot wait.
+   */
+  writeSealedSession(sealed: SealedSession): Promise<void>;
+  deleteSession(id: string): Promise<void>;
+  /** Appends a slice of recorded meeting audio (encrypted like session bodies) */
+  appendAudioChunk(sessionId: string, chunk: AudioChunk): Promise<void>;
+  /** Recorded audio of a session, one entry per take in recording order */
+  loadAudio(sessionId: string): Promise<AudioTake[]>;
+  /** Appends audio buffered while offline; `chunk.take` is the gap id */
+  appendOfflineChunk(sessionId: string, chunk: AudioChunk): Promise<void>;
+  /** Every offline gap not yet transcribed, including ones cut short by a reload or crash */
+  loadOfflineGaps(): Promise<OfflineGap[]>;
+  deleteOfflineGap(id: string): Promise<void>;
+  /** Search projections of every session, kept current by saveSession/deleteSession */
+  loadSearchIndex(): Promise<SessionSearchDoc[]>;
+  /** Bytes used / available for this origin, when the browser reports it */
+  estimateUsage(): Promise<{ usage: number; quota: number } | null>;
+  /**
+   * Key used to seal session bodies and the search index. Setting it also encrypts anything
+   * still stored in plaintext; clearing it (sign-out, lock) makes reads and writes of bodies fail.
+   */
+  setEncryptionKey(key: CryptoKey | null): Promise<void>;
+  /** Account whose sessions are read and written; each has its own database. Null on sign-out. */
+  setOwner(owner: AuthUser | null): void;
+}
+
+/** A session save with its encryption already done */
+export interface SealedSession {
+  meta: SessionMetadata;
+  data: EncryptedPayload | null;
+  doc: SessionSearchDoc | null;
+  sealedDoc: StoredSearchDoc | null;
+}
+
+/** Thrown when a session body is read or written before the vault has been unlocked, or with nobody signed in */
+export class StoreLockedError extends Error {
+  constructor() {
+    super('The session vault is locked.');
+    this.name = 'StoreLockedError';
+  }
+}
+
+/** Thrown when the browser refuses a write because the origin is out of storage */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const DB_NAME = 'hieuai_scribe';
+// Account that kept DB_NAME when sessions were split per account
+const LEGACY_OWNER_KEY = 'hieuai_scribe_owner';
+const DB_VERSION = 4;
+const META_STORE = 'sessions';
+const DATA_STORE = 'sessionData';
+const SEARCH_STORE = 'searchIndex'; // Added in v2; backfilled on first search
+const AUDIO_STORE = 'audioChunks';  // Added in v3; auto-increment keys, indexed by session
+const OFFLINE_STORE = 'offlineAudio'; // Added in v4; same records as AUDIO_STORE, also indexed by gap
+
+// At-rest record shapes. Plaintext variants are what older versions wrote; they are
+// encrypted in place the first time a key is provided.
+type StoredData = EncryptedPayload | SessionData;
+type StoredSearchDoc = { id: string; payload: EncryptedPayload } | SessionSearchDoc;
+// Audio never existed in plaintext, so chunks are always sealed
+type StoredAudioChunk = Omit<AudioChunk, 'data'> & { sessionId: string; mimeType: string; payload: EncryptedPayload };
+
+// Pre-IndexedDB layout, read once and removed after a successful migration
+const LEGACY_META_KEY = 'scribe_sessions_meta_v1';
+const LEGACY_DATA_PREFIX = 'scribe_session_data_v1_';
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const toStoreError = (error: unknown) =>
+  isQuotaError(error) ? new StorageQuotaError() : (error instanceof Error ? error : new Error(String(error)));
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(toStoreError(request.error));
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  // Quota failures surface on the transaction rather than the individual request
+  tx.onabort = () => reject(toStoreError(tx.error));
+  tx.onerror = () => reject(toStoreError(tx.error));
+});
+
+// Sessions saved before they were split per account stay with the first administrator to sign in
+const databaseFor = (owner: AuthUser) => {
+  let legacyOwner = localStorage.getItem(LEGACY_OWNER_KEY);
+  if (!legacyOwner && owner.role === 'admin') {
+    legacyOwner = owner.id;
+    localStorage.setItem(LEGACY_OWNER_KEY, legacyOwner);
+  }
+  return legacyOwner === owner.id ? DB_NAME : `${DB_NAME}_${owner.id}`;
+};
+
+const openDatabase = (name: string): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(DATA_STORE)) db.createObjectStore(DATA_STORE);
+    if (!db.objectStoreNames.contains(SEARCH_STORE)) db.createObjectStore(SEARCH_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(AUDIO_STORE)) {
+      db.createObjectStore(AUDIO_STORE, { autoIncrement: true }).createIndex('sessionId', 'sessionId');
+    }
+    if (!db.objectStoreNames.contains(OFFLINE_STORE)) {
+      const offline = db.createObjectStore(OFFLINE_STORE, { autoIncrement: true });
+      offline.createIndex('sessionId', 'sessionId');
+      offline.createIndex('take', 'take');
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(toStoreError(request.error));
+});
+
+// Moves sessions saved by earlier versions out of localStorage. Keys are only removed
+// once the IndexedDB transaction has committed, so a failure leaves the old data intact.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const rawMeta = localStorage.getItem(LEGACY_META_KEY);
+  if (!rawMeta) return;
+
+  let sessions: SessionMetadata[] = [];
+  try { sessions = JSON.parse(rawMeta); } catch { return; }
+
+  // Sessions already in IndexedDB win over the legacy copy
+  const existing = new Set(await promisify(db.transaction(META_STORE).objectStore(META_STORE).getAllKeys()));
+
+  const tx = db.transaction([META_STORE, DATA_STORE, SEARCH_STORE], 'readwrite');
+  const done = completion(tx);
+  const metaStore = tx.objectStore(META_STORE);
+  const dataStore = tx.objectStore(DATA_STORE);
+  for (const meta of sessions) {
+    if (existing.has(meta.id)) continue;
+    metaStore.put(meta);
+    const rawData = localStorage.getItem(LEGACY_DATA_PREFIX + meta.id);
+    if (rawData) {
+      try {
+        const data: SessionData = JSON.parse(rawData);
+        dataStore.put(data, meta.id);
+        tx.objectStore(SEARCH_STORE).put(buildSearchDoc(meta.id, data));
+      } catch { /* Unreadable body: keep the folder */ }
+    }
+  }
+  await done;
+
+  sessions.forEach(s => localStorage.removeItem(LEGACY_DATA_PREFIX + s.id));
+  localStorage.removeItem(LEGACY_META_KEY);
+};
+
+export const createIndexedDbSessionStore = (): SessionStore => {
+  let owner: AuthUser | null = null;
+  let ready: Promise<IDBDatabase> | null = null;
+  let opened: IDBDatabase | null = null; // Set once `ready` has resolved, for writes that cannot await
+  let encryptionKey: CryptoKey | null = null;
+  // Decrypted copy of the search index, loaded on the first search and updated on every write
+  let searchCache: Map<string, SessionSearchDoc> | null = null;
+  const db = (): Promise<IDBDatabase> => {
+    if (!owner) return Promise.reject(new StoreLockedError());
+    if (!ready) {
+      const name = databaseFor(owner);
+      const opening: Promise<IDBDatabase> = openDatabase(name).then(async database => {
+        // Only the database that predates accounts takes over the localStorage layout
+        if (name === DB_NAME) {
+          try { await migrateFromLocalStorage(database); } catch (e) { console.error('Session migration failed', e); }
+        }
+        // Another account signed in while this one was opening
+        if (ready !== opening) { database.close(); throw new StoreLockedError(); }
+        opened = database;
+        return database;
+      });
+      ready = opening;
+      // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+      opening.catch(() => { if (ready === opening) ready = null; });
+    }
+    return ready;
+  };
+
+  const requireKey = () => {
+    if (!encryptionKey) throw new StoreLockedError();
+    return encryptionKey;
+  };
+
+  const openData = async (raw: StoredData | undefined): Promise<SessionData | null> => {
+    if (!raw) return null;
+    return isEncryptedPayload(raw) ? decryptJson<SessionData>(requireKey(), raw) : raw;
+  };
+
+  const openSearchDoc = async (raw: StoredSearchDoc): Promise<SessionSearchDoc> =>
+    'payload' in raw ? decryptJson<SessionSearchDoc>(requireKey(), raw.payload) : raw;
+
+  const sealSearchDoc = async (doc: SessionSearchDoc): Promise<StoredSearchDoc> =>
+    ({ id: doc.id, payload: await encryptJson(requireKey(), doc) });
+
+  const sealAudioChunk = async (sessionId: string, { data, ...chunk }: AudioChunk): Promise<StoredAudioChunk> => ({
+    ...chunk,
+    sessionId,
+    mimeType: data.type,
+    payload: await encryptBytes(requireKey(), await data.arrayBuffer())
+  });
+
+  const addRecord = async (store: string, record: StoredAudioChunk) => {
+    const database = await db();
+    const tx = database.transaction(store, 'readwrite');
+    const done = completion(tx);
+    tx.objectStore(store).add(record);
+    await done;
+  };
+
+  // Chunks of each take joined in order, sorted by start time
+  const joinTakes = async (records: StoredAudioChunk[]) => {
+    const takes = new Map<string, { sessionId: string; startTime: number; endTime: number; mimeType: string; parts: { seq: number; bytes: ArrayBuffer }[] }>();
+    for (const record of records) {
+      const bytes = await decryptBytes(requireKey(), record.payload);
+      const take = takes.get(record.take) || { sessionId: record.sessionId, startTime: record.startTime, endTime: record.endTime, mimeType: record.mimeType, parts: [] };
+      take.endTime = Math.max(take.endTime, record.endTime);
+      take.parts.push({ seq: record.seq, bytes });
+      takes.set(record.take, take);
+    }
+    return Array.from(takes, ([id, take]) => ({
+      id,
+      sessionId: take.sessionId,
+      startTime: take.startTime,
+      endTime: take.endTime,
+      audio: new Blob(take.parts.sort((a, b) => a.seq - b.seq).map(p => p.bytes), { type: take.mimeType })
+    })).sort((a, b) => a.startTime - b.startTime);
+  };
+
+  // Queues deletion of a session's audio slices and offline gaps inside `tx`
+  const clearAudio = (tx: IDBTransaction, id: string) => {
+    [AUDIO_STORE, OFFLINE_STORE].forEach(store => {
+      const audioKeys = tx.objectStore(store).index('sessionId').getAllKeys(id);
+      audioKeys.onsuccess = () => audioKeys.result.forEach(key => tx.objectStore(store).delete(key));
+    });
+  };
+
+  // Encrypt before opening the transaction: awaiting WebCrypto inside it would let it auto-commit
+  const sealSession = async (meta: SessionMetadata, data?: SessionData): Promise<SealedSession> => {
+    const doc = data ? buildSearchDoc(meta.id, data) : null;
+    return {
+      meta,
+      data: data ? await encryptJson(requireKey(), data) : null,
+      doc,
+      sealedDoc: doc ? await sealSearchDoc(doc) : null
+    };
+  };
+
+  const writeSealedSession = (sealed: SealedSession): Promise<void> => {
+    if (!opened) return db().then(() => writeSealedSession(sealed));
+    let tx: IDBTransaction;
+    try {
+      tx = opened.transaction([META_STORE, DATA_STORE, SEARCH_STORE], 'readwrite');
+    } catch (e) {
+      return Promise.reject(toStoreError(e));
+    }
+    const done = completion(tx);
+    try {
+      tx.objectStore(META_STORE).put(sealed.meta);
+      if (sealed.data) tx.objectStore(DATA_STORE).put(sealed.data, sealed.meta.id);
+      if (sealed.sealedDoc) tx.objectStore(SEARCH_STORE).put(sealed.sealedDoc);
+    } catch (e) {
+      done.catch(() => {});
+      tx.abort();
+      return Promise.reject(toStoreError(e));
+    }
+    return done.then(() => { if (sealed.doc) searchCache?.set(sealed.meta.id, sealed.doc); });
+  };
+
+  // Encrypts every plaintext body and index entry left by earlier versions
+  const encryptPlaintextRecords = async (database: IDBDatabase) => {
+    const read = database.transaction([DATA_STORE, SEARCH_STORE]);
+    const [dataKeys, dataValues, docs] = await Promise.all([
+      promisify(read.objectStore(DATA_STORE).getAllKeys()),
+      promisify(read.objectStore(DATA_STORE).getAll() as IDBRequest<StoredData[]>),
+      promisify(read.objectStore(SEARCH_STORE).getAll() as IDBRequest<StoredSearchDoc[]>)
+    ]);
+
+    const sealedData: [IDBValidKey, EncryptedPayload][] = [];
+    for (let i = 0; i < dataValues.length; i++) {
+      if (!isEncryptedPayload(dataValues[i])) sealedData.push([dataKeys[i], await encryptJson(requireKey(), dataValues[i])]);
+    }
+    const sealedDocs: StoredSearchDoc[] = [];
+    for (const doc of docs) {
+      if (!('payload' in doc)) sealedDocs.push(await sealSearchDoc(doc));
+    }
+    if (sealedData.length === 0 && sealedDocs.length === 0) return;
+
+    const tx = database.transaction([DATA_STORE, SEARCH_STORE], 'readwrite');
+    const done = completion(tx);
+    sealedData.forEach(([id, payload]) => tx.objectStore(DATA_STORE).put(payload, id));
+    sealedDocs.forEach(doc => tx.objectStore(SEARCH_STORE).put(doc));
+    await done;
+  };
+
+  return {
+    async listSessions() {
+      const database = await db();
+      const all = await promisify(database.transaction(META_STORE).objectStore(META_STORE).getAll() as IDBRequest<SessionMetadata[]>);
+      return all.sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    async loadSession(id) {
+      const database = await db();
+      const raw = await promisify(database.transaction(DATA_STORE).objectStore(DATA_STORE).get(id) as IDBRequest<StoredData | undefined>);
+      return openData(raw);
+    },
+
+    async saveSession(meta, data) {
+      await db();
+      await writeSealedSession(await sealSession(meta, data));
+    },
+
+    async replaceSession(meta, data) {
+      const database = await db();
+      const sealed = await sealSession(meta, data);
+      const tx = database.transaction([META_STORE, DATA_STORE, SEARCH_STORE, AUDIO_STORE, OFFLINE_STORE], 'readwrite');
+      const done = completion(tx);
+      clearAudio(tx, meta.id);
+      tx.objectStore(META_STORE).put(sealed.meta);
+      tx.objectStore(DATA_STORE).put(sealed.data, meta.id);
+      tx.objectStore(SEARCH_STORE).put(sealed.sealedDoc);
+      await done;
+      if (sealed.doc) searchCache?.set(meta.id, sealed.doc);
+    },
+
+    sealSession,
+    writeSealedSession,
+
+    async deleteSession(id) {
+      const database = await db();
+      const tx = database.transaction([META_STORE, DATA_STORE, SEARCH_STORE, AUDIO_STORE, OFFLINE_STORE], 'readwrite');
+      const done = completion(tx);
+      tx.objectStore(META_STORE).delete(id);
+      tx.objectStore(DATA_STORE).delete(id);
+      tx.objectStore(SEARCH_STORE).delete(id);
+      clearAudio(tx, id);
+      await done;
+      searchCache?.delete(id);
+    },
+
+    async appendAudioChunk(sessionId, chunk) {
+      await addRecord(AUDIO_STORE, await sealAudioChunk(sessionId, chunk));
+    },
+
+    async loadAudio(sessionId) {
+      const database = await db();
+      const records = await promisify(
+        database.transaction(AUDIO_STORE).objectStore(AUDIO_STORE).index('sessionId').getAll(sessionId) as IDBRequest<StoredAudioChunk[]>
+      );
+      return (await joinTakes(records)).map(({ sessionId: _, ...take }) => take);
+    },
+
+    async appendOfflineChunk(sessionId, chunk) {
+      await addRecord(OFFLINE_STORE, await sealAudioChunk(sessionId, chunk));
+    },
+
+    async loadOfflineGaps() {
+      const database = await db();
+      const records = await promisify(database.transaction(OFFLINE_STORE).objectStore(OFFLINE_STORE).getAll() as IDBRequest<StoredAudioChunk[]>);
+      return joinTakes(records);
+    },
+
+    async deleteOfflineGap(id) {
+      const database = await db();
+      const tx = database.transaction(OFFLINE_STORE, 'readwrite');
+      const done = completion(tx);
+      const keys = tx.objectStore(OFFLINE_STORE).index('take').getAllKeys(id);
+      keys.onsuccess = () => keys.result.forEach(key => tx.objectStore(OFFLINE_STORE).delete(key));
+      await done;
+    },
+
+    async loadSearchIndex() {
+      if (searchCache) return Array.from(searchCache.values());
+      const database = await db();
+      const read = database.transaction([META_STORE, SEARCH_STORE]);
+      const [ids, stored] = await Promise.all([
+        promisify(read.objectStore(META_STORE).getAllKeys()),
+        promisify(read.objectStore(SEARCH_STORE).getAll() as IDBRequest<StoredSearchDoc[]>)
+      ]);
+      const cache = new Map<string, SessionSearchDoc>();
+      for (const raw of stored) cache.set(raw.id, await openSearchDoc(raw));
+
+      // Sessions saved before the index existed are indexed once from their stored body
+      const missing = ids.map(String).filter(id => !cache.has(id));
+      for (const id of missing) {
+        const data = await openData(await promisify(database.transaction(DATA_STORE).objectStore(DATA_STORE).get(id) as IDBRequest<StoredData | undefined>));
+        if (!data) continue;
+        const doc = buildSearchDoc(id, data);
+        cache.set(id, doc);
+        try {
+          const sealed = await sealSearchDoc(doc);
+          const tx = database.transaction(SEARCH_STORE, 'readwrite');
+          tx.objectStore(SEARCH_STORE).put(sealed);
+          await completion(tx);
+        } catch (e) { console.error('Search index write failed', e); }
+      }
+
+      searchCache = cache;
+      return Array.from(cache.values());
+    },
+
+    async estimateUsage() {
+      if (!navigator.storage?.estimate) return null;
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return quota ? { usage, quota } : null;
+    },
+
+    async setEncryptionKey(key) {
+      encryptionKey = key;
+      searchCache = null;
+      if (key) await encryptPlaintextRecords(await db());
+    },
+
+    setOwner(next) {
+      if (owner?.id === next?.id) return;
+      owner = next;
+      opened?.close();
+      opened = null;
+      ready = null;
+      searchCache = null;
+    },
+  };
+};
+
+export const sessionStore: SessionStore = createIndexedDbSessionStore();
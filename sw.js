@@ -0,0 +1,38 @@
+// Service worker for the installed app. The build (see vite.config.ts) fills in the
+// placeholders below with its own id and the list of files it emitted.
+const BUILD_ID = __BUILD_ID__;
+const PRECACHE_URLS = __PRECACHE_URLS__; // Relative to the service worker's scope
+
+const CACHE_PREFIX = 'hieuai-shell-';
+const CACHE_NAME = CACHE_PREFIX + BUILD_ID;
+const SHELL_URL = new URL('./', self.location).href;
+
+// Cache the whole shell up front. The new version waits until the page asks it to take over,
+// so an open meeting is never switched to new code mid-session.
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE_NAME).then((cache) => cache.addAll(PRECACHE_URLS)));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const keys = await caches.keys();
+    await Promise.all(keys.filter((key) => key.startsWith(CACHE_PREFIX) && key !== CACHE_NAME).map((key) => caches.delete(key)));
+    await self.clients.claim();
+  })());
+});
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') self.skipWaiting();
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  // AI providers, the connectivity probe and anything outside the app go straight to the network
+  if (request.method !== 'GET' || !request.url.startsWith(SHELL_URL)) return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(caches.match(SHELL_URL, { cacheName: CACHE_NAME }).then((cached) => cached || fetch(request)));
+    return;
+  }
+  event.respondWith(caches.match(request, { cacheName: CACHE_NAME, ignoreSearch: true }).then((cached) => cached || fetch(request)));
+});
@@ -0,0 +1,21 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: [
+    './index.html',
+    './index.tsx',
+    './App.tsx',
+    './constants.ts',
+    './components/**/*.{ts,tsx}',
+    './hooks/**/*.ts',
+    './services/**/*.ts',
+    './utils/**/*.ts'
+  ],
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['"Inter Variable"', 'Inter', 'sans-serif']
+      }
+    }
+  },
+  plugins: []
+};
@@ -58,6 +58,31 @@ export enum TranscriptionStatus {
   STOPPED = 'STOPPED',
 }
 
+export interface LanguageOption {
+  code: string;   // Short ISO code used in prompts and storage
+  name: string;   // English display name, also used in model prompts
+  label: string;  // Compact badge label (e.g. "EN")
+  locale: string; // BCP-47 tag for recognition and speech synthesis
+}
+
+export interface LanguagePair {
+  source: string; // LanguageOption.code spoken in the room
+  target: string; // LanguageOption.code of the interpretation
+}
+
+export interface TranscriptSegment {
+  id: string;
+  source: string;            // Recognised (and later refined) source-language text
+  translation: string;       // Interpretation of `source`; empty until the interpreter has run
+  startTime: number;         // Seconds on the session clock when the segment opened
+  endTime: number;           // Seconds on the session clock of the last committed words
+  refined?: boolean;         // Source has been through the refiner (or was typed by hand)
+  translatedSource?: string; // Source the current translation was made from; a mismatch marks it stale
+  closed?: boolean;          // Recognition will not append further text to this segment
+  speaker?: string;          // Speaker id ("1", "2", ...); missing when turns were not labelled
+  references?: number[];     // Passages of the reference document sent with the current translation
+}
+
 export interface SessionMetadata {
   id: string;
   name: string;
@@ -65,13 +90,90 @@ export interface SessionMetadata {
   updatedAt: number;
   durationSeconds: number;
   wordCount: number;
+  sizeBytes?: number; // Approximate stored size of the session body, shown in the Vault for cleanup
+  audioBytes?: number; // Size of the recorded meeting audio; missing when nothing was recorded
+}
+
+// One slice of microphone audio as it is written while recording
+export interface AudioChunk {
+  take: string;      // Recorder run the chunk belongs to; chunks of one take concatenate into one file
+  seq: number;       // Order within the take
+  startTime: number; // Session clock (seconds) when the take began
+  endTime: number;   // Session clock (seconds) at the end of this chunk
+  data: Blob;
+}
+
+// A continuous recording, from start (or a session switch) until stop. Pauses do not split takes.
+export interface AudioTake {
+  id: string;
+  startTime: number; // Session clock (seconds) at the first sample
+  endTime: number;
+  audio: Blob;
+}
+
+// Audio captured while the connection was down, waiting to be transcribed into its session.
+// Stored as AudioChunks whose `take` is the gap id, so a reload or crash does not lose it.
+export interface OfflineGap {
+  id: string;
+  sessionId: string; // Session that was open while the audio was captured
+  startTime: number; // Session clock (seconds) when buffering began
+  endTime: number;   // Session clock (seconds) when buffering stopped
+  audio: Blob;
+}
+
+// One glossary line: how a source term must be written and interpreted
+export interface GlossaryEntry {
+  id: string;
+  source: string;            // Term as spoken, matched case-insensitively on word boundaries
+  target: string;            // Preferred interpretation; ignored when `doNotTranslate` is set
+  doNotTranslate?: boolean;  // Keep the source term as is (names, brands, code words)
+}
+
+// A reference document attached to a session, kept as the text extracted from it
+export interface ReferenceFile {
+  id: string;
+  name: string;
+  content: string;
 }
 
 export interface SessionData {
-  text: string;
-  translatedText: string;
+  text: string;           // Plain-text view of the source pane (derived from segments)
+  translatedText: string; // Plain-text view of the interpretation pane (derived from segments)
+  segments?: TranscriptSegment[]; // Missing on sessions saved before the segment model
   contextDesc: string;
-  fileContent: string;
-  fileName?: string; // Track the name of the context file
-  processedIndex: number;
+  references?: ReferenceFile[]; // Reference documents attached to the session
+  fileContent?: string; // Legacy single reference document, superseded by `references`
+  fileName?: string;
+  processedIndex?: number; // Legacy character offset, superseded by per-segment translation state
+  languagePair?: LanguagePair; // Missing on sessions created before the picker existed (EN -> VI)
+  speakers?: Record<string, string>; // Names given to speaker ids in this session
+  glossary?: GlossaryEntry[];
+}
+
+export interface SessionBundleEntry {
+  meta: SessionMetadata;
+  data: SessionData;
+}
+
+// Portable export of one or more sessions, used to hand meetings between machines
+export interface SessionBundle {
+  format: 'hieuai-session-bundle';
+  version: number;
+  exportedAt: number;
+  sessions: SessionBundleEntry[];
+}
+
+// Search projection of a session: segment text plus a case/diacritic-folded copy, kept in sync on save
+export interface SessionSearchDoc {
+  id: string;
+  entries: { segmentId: string; source: string; translation: string; sourceFolded: string; translationFolded: string }[];
+}
+
+export interface SessionSearchHit {
+  sessionId: string;
+  segmentId: string;
+  field: 'source' | 'translation';
+  before: string;
+  match: string;
+  after: string;
 }
@@ -0,0 +1,69 @@
+// Cutting long recordings into transcription-sized WAV slices, in pauses so words are not halved.
+// Runs inside services/audioSlicer.worker.ts.
+
+export const TARGET_SAMPLE_RATE = 16000; // Plenty for speech and keeps each slice small
+const MIN_SLICE_SECONDS = 45;
+const MAX_SLICE_SECONDS = 90;
+const WINDOW_SECONDS = 0.05;
+
+/**
+ * Sample offsets to cut at. Each cut lands on the quietest 50 ms window between the minimum
+ * and maximum slice length, which in speech is almost always a pause between sentences.
+ */
+export const findSilenceCuts = (samples: Float32Array, sampleRate = TARGET_SAMPLE_RATE): number[] => {
+  const windowSize = Math.round(WINDOW_SECONDS * sampleRate);
+  const windowCount = Math.ceil(samples.length / windowSize);
+  const energy = new Float32Array(windowCount);
+  for (let w = 0; w < windowCount; w++) {
+    let sum = 0;
+    const end = Math.min(samples.length, (w + 1) * windowSize);
+    for (let i = w * windowSize; i < end; i++) sum += samples[i] * samples[i];
+    energy[w] = sum / Math.max(1, end - w * windowSize);
+  }
+
+  const minWindows = Math.round(MIN_SLICE_SECONDS / WINDOW_SECONDS);
+  const maxWindows = Math.round(MAX_SLICE_SECONDS / WINDOW_SECONDS);
+  const cuts: number[] = [];
+  let start = 0;
+  while (windowCount - start > maxWindows) {
+    let best = start + minWindows;
+    for (let w = best; w < start + maxWindows; w++) {
+      if (energy[w] < energy[best]) best = w;
+    }
+    cuts.push(best * windowSize);
+    start = best;
+  }
+  return cuts;
+};
+
+/** 16-bit PCM, half the memory of the float samples and exactly what a WAV slice holds */
+export const toPcm16 = (samples: Float32Array): Int16Array => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return pcm;
+};
+
+export const encodeWav = (pcm: Int16Array, sampleRate = TARGET_SAMPLE_RATE): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) header.setUint8(offset + i, value.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true);              // Block align
+  header.setUint16(34, 16, true);             // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  // Samples are little-endian on every platform browsers run on, as WAV expects
+  return new Blob([header.buffer, pcm], { type: 'audio/wav' });
+};
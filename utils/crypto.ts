@@ -0,0 +1,106 @@
+// Small WebCrypto helpers shared by the auth layer and the session store
+
+export const PBKDF2_ITERATIONS = 310000; // OWASP recommendation for PBKDF2-HMAC-SHA256
+
+export const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+export const toBase64 = (bytes: ArrayBuffer | Uint8Array) => {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (let i = 0; i < view.length; i++) binary += String.fromCharCode(view[i]);
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string) => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const passphraseKey = (passphrase: string) =>
+  crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase.normalize('NFC')), 'PBKDF2', false, ['deriveBits', 'deriveKey']);
+
+/** Salted PBKDF2 hash of a passphrase, for verification only */
+export const hashPassphrase = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS) => {
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    await passphraseKey(passphrase),
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+// Compares without bailing out early, so timing does not reveal how much of a hash matched
+export const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+// --- Encryption at rest ---
+// Session bodies are sealed with a random AES-GCM "vault key". Each account stores its own
+// copy of that key, wrapped with a key derived from the account's passphrase, so changing a
+// passphrase only re-wraps the key instead of re-encrypting every session.
+
+export interface EncryptedPayload {
+  alg: 'AES-GCM';
+  iv: Uint8Array;
+  ciphertext: ArrayBuffer;
+}
+
+export const isEncryptedPayload = (value: unknown): value is EncryptedPayload =>
+  typeof value === 'object' && value !== null && (value as EncryptedPayload).alg === 'AES-GCM' && (value as EncryptedPayload).ciphertext instanceof ArrayBuffer;
+
+export const generateVaultKey = () =>
+  crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+const deriveWrappingKey = async (passphrase: string, salt: Uint8Array, iterations = PBKDF2_ITERATIONS) =>
+  crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    await passphraseKey(passphrase),
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+
+export interface WrappedKey {
+  salt: string; // Base64
+  iv: string;
+  key: string;
+}
+
+export const wrapVaultKey = async (vaultKey: CryptoKey, passphrase: string): Promise<WrappedKey> => {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrapped = await crypto.subtle.wrapKey('raw', vaultKey, await deriveWrappingKey(passphrase, salt), { name: 'AES-GCM', iv });
+  return { salt: toBase64(salt), iv: toBase64(iv), key: toBase64(wrapped) };
+};
+
+/** Fails (OperationError) when the passphrase does not match the one the key was wrapped with */
+export const unwrapVaultKey = async (wrapped: WrappedKey, passphrase: string) =>
+  crypto.subtle.unwrapKey(
+    'raw',
+    fromBase64(wrapped.key),
+    await deriveWrappingKey(passphrase, fromBase64(wrapped.salt)),
+    { name: 'AES-GCM', iv: fromBase64(wrapped.iv) },
+    { name: 'AES-GCM', length: 256 },
+    true, // Extractable so it can be re-wrapped for a new passphrase or account
+    ['encrypt', 'decrypt']
+  );
+
+export const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<EncryptedPayload> => {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { alg: 'AES-GCM', iv, ciphertext };
+};
+
+export const decryptBytes = (key: CryptoKey, payload: EncryptedPayload): Promise<ArrayBuffer> =>
+  crypto.subtle.decrypt({ name: 'AES-GCM', iv: payload.iv }, key, payload.ciphertext);
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<EncryptedPayload> =>
+  encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(new TextDecoder().decode(await decryptBytes(key, payload)));
@@ -0,0 +1,211 @@
+import type { TDocumentDefinitions, TFontDictionary, Content, TableCell } from 'pdfmake/interfaces';
+
+export interface MinutesRow {
+  time: string;
+  speaker?: string; // Set on the first row of each speaker's turn
+  source: string;
+  translation: string;
+}
+
+export interface MinutesDocument {
+  title: string;
+  date: string;
+  duration: string;
+  objectives: string;
+  referenceFile: string;
+  sourceName: string;
+  targetName: string;
+  sourceCode: string; // Language codes, which pick the PDF fonts
+  targetCode: string;
+  rows: MinutesRow[];
+}
+
+const BRAND = 'HIEUAI TRANSLATE';
+
+interface ScriptFont {
+  family: string;
+  url: () => Promise<{ default: string }>;
+}
+
+// Roboto, the font bundled with pdfmake, has no CJK or Thai glyphs. These Noto Sans builds also
+// cover Latin, so text in those languages is set in them. They are part of the build like every
+// other asset, but weigh a few MB each (CJK), so they are only read when first needed; bold falls
+// back to regular.
+const SCRIPT_FONTS: Record<string, ScriptFont> = {
+  ja: { family: 'NotoSansJP', url: () => import('@expo-google-fonts/noto-sans-jp/400Regular/NotoSansJP_400Regular.ttf?url') },
+  zh: { family: 'NotoSansSC', url: () => import('@expo-google-fonts/noto-sans-sc/400Regular/NotoSansSC_400Regular.ttf?url') },
+  ko: { family: 'NotoSansKR', url: () => import('@expo-google-fonts/noto-sans-kr/400Regular/NotoSansKR_400Regular.ttf?url') },
+  th: { family: 'NotoSansThai', url: () => import('@expo-google-fonts/noto-sans-thai/400Regular/NotoSansThai_400Regular.ttf?url') },
+};
+
+const ROBOTO = { normal: 'Roboto-Regular.ttf', bold: 'Roboto-Medium.ttf', italics: 'Roboto-Italic.ttf', bolditalics: 'Roboto-MediumItalic.ttf' };
+
+// Base64, as pdfmake's virtual file system stores fonts; kept for later exports in this tab
+const fontCache = new Map<string, Promise<string>>();
+
+const loadFont = ({ family, url }: ScriptFont) => {
+  let font = fontCache.get(family);
+  if (!font) {
+    font = url()
+      .then(asset => fetch(asset.default))
+      .then(res => {
+        if (!res.ok) throw new Error(`Font could not be loaded (${res.status})`);
+        return res.blob();
+      })
+      .then(blob => new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+      }));
+    font.catch(() => fontCache.delete(family));
+    fontCache.set(family, font);
+  }
+  return font;
+};
+
+/**
+ * Meeting minutes as a Word document: title page, objectives, then a two-column
+ * bilingual transcript table. The `docx` library is loaded on demand.
+ */
+export const buildMinutesDocx = async (minutes: MinutesDocument): Promise<Blob> => {
+  const {
+    Document, Packer, Paragraph, TextRun, HeadingLevel, AlignmentType,
+    Table, TableRow, TableCell, WidthType, ShadingType
+  } = await import('docx');
+
+  const cell = (children: InstanceType<typeof Paragraph>[], header = false) => new TableCell({
+    children,
+    width: { size: 50, type: WidthType.PERCENTAGE },
+    margins: { top: 80, bottom: 80, left: 120, right: 120 },
+    ...(header ? { shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'DBEAFE' } } : {})
+  });
+
+  const headerRow = new TableRow({
+    tableHeader: true,
+    children: [
+      cell([new Paragraph({ children: [new TextRun({ text: `Source (${minutes.sourceName})`, bold: true })] })], true),
+      cell([new Paragraph({ children: [new TextRun({ text: `Interpretation (${minutes.targetName})`, bold: true })] })], true),
+    ]
+  });
+
+  const bodyRows = minutes.rows.map(row => new TableRow({
+    cantSplit: true,
+    children: [
+      cell([
+        new Paragraph({ children: [
+          new TextRun({ text: `[${row.time}]`, size: 16, color: '94A3B8' }),
+          ...(row.speaker ? [new TextRun({ text: `  ${row.speaker}`, size: 16, bold: true, color: '475569' })] : [])
+        ] }),
+        new Paragraph({ children: [new TextRun(row.source)] })
+      ]),
+      cell([new Paragraph({ children: [new TextRun({ text: row.translation, italics: !row.translation })] })]),
+    ]
+  }));
+
+  const doc = new Document({
+    creator: BRAND,
+    title: minutes.title,
+    sections: [
+      {
+        children: [
+          new Paragraph({ spacing: { before: 3600 }, alignment: AlignmentType.CENTER, children: [new TextRun({ text: BRAND, bold: true, size: 20, color: '2563EB' })] }),
+          new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, spacing: { before: 240, after: 480 }, children: [new TextRun({ text: minutes.title, bold: true })] }),
+          new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(`Date: ${minutes.date}`)] }),
+          new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(`Duration: ${minutes.duration}`)] }),
+          new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(`Languages: ${minutes.sourceName} → ${minutes.targetName}`)] }),
+          ...(minutes.referenceFile ? [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun(`Reference File: ${minutes.referenceFile}`)] })] : []),
+        ]
+      },
+      {
+        children: [
+          new Paragraph({ heading: HeadingLevel.HEADING_1, children: [new TextRun('Meeting Objectives')] }),
+          ...(minutes.objectives || 'No context provided.').split('\n').map(line => new Paragraph({ children: [new TextRun(line)] })),
+          new Paragraph({ heading: HeadingLevel.HEADING_1, spacing: { before: 360 }, children: [new TextRun('Transcript')] }),
+          new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [headerRow, ...bodyRows] }),
+        ]
+      }
+    ]
+  });
+
+  return Packer.toBlob(doc);
+};
+
+/**
+ * The same minutes as a PDF, laid out with pdfmake. Its bundled Roboto font covers Latin
+ * (including Vietnamese), Greek and Cyrillic; a Noto font is added for CJK and Thai.
+ */
+export const buildMinutesPdf = async (minutes: MinutesDocument): Promise<Blob> => {
+  const sourceFont = SCRIPT_FONTS[minutes.sourceCode];
+  const targetFont = SCRIPT_FONTS[minutes.targetCode];
+  const scriptFonts = [sourceFont, targetFont].filter((f, i, all): f is ScriptFont => !!f && all.indexOf(f) === i);
+  const [pdfMakeModule, vfsModule, ...scriptData] = await Promise.all([
+    import('pdfmake/build/pdfmake'),
+    import('pdfmake/build/vfs_fonts'),
+    ...scriptFonts.map(loadFont),
+  ]);
+  // pdfmake only ships UMD builds, which arrive with `module.exports` as the default export
+  const pdfMake = pdfMakeModule.default ?? pdfMakeModule;
+  const vfs: Record<string, string> = { ...vfsModule.default };
+  const fonts: TFontDictionary = { Roboto: ROBOTO };
+  scriptFonts.forEach((f, i) => {
+    const file = `${f.family}.ttf`;
+    vfs[file] = scriptData[i];
+    fonts[f.family] = { normal: file, bold: file, italics: file, bolditalics: file };
+  });
+  // Headings and titles may be in either language; the target's font is used when both need one
+  const defaultFont = (targetFont || sourceFont)?.family || 'Roboto';
+
+  const transcript: Content = minutes.rows.length === 0
+    ? { text: 'No transcript recorded.', italics: true, color: '#94a3b8' }
+    : {
+        table: {
+          headerRows: 1,
+          widths: ['*', '*'],
+          dontBreakRows: true,
+          body: [
+            [
+              { text: `Source (${minutes.sourceName})`, style: 'tableHeader' },
+              { text: `Interpretation (${minutes.targetName})`, style: 'tableHeader' },
+            ],
+            ...minutes.rows.map((row): TableCell[] => [
+              { stack: [{ text: row.speaker ? [`[${row.time}]  `, { text: row.speaker, bold: true, color: '#475569' }] : `[${row.time}]`, style: 'time' }, row.source], font: sourceFont?.family || 'Roboto' },
+              { text: row.translation, font: targetFont?.family || 'Roboto' },
+            ]),
+          ],
+        },
+        layout: 'lightHorizontalLines',
+      };
+
+  const definition: TDocumentDefinitions = {
+    info: { title: minutes.title, creator: BRAND },
+    pageSize: 'A4',
+    pageMargins: [40, 50, 40, 50],
+    footer: (current, count) => current > 1
+      ? { text: `${minutes.title} · ${current} / ${count}`, alignment: 'right', margin: [0, 20, 40, 0], fontSize: 8, color: '#94a3b8' }
+      : '',
+    content: [
+      { text: BRAND, style: 'brand', margin: [0, 220, 0, 0] },
+      { text: minutes.title, style: 'title' },
+      { text: `Date: ${minutes.date}`, style: 'meta' },
+      { text: `Duration: ${minutes.duration}`, style: 'meta' },
+      { text: `Languages: ${minutes.sourceName} → ${minutes.targetName}`, style: 'meta' },
+      ...(minutes.referenceFile ? [{ text: `Reference File: ${minutes.referenceFile}`, style: 'meta' }] : []),
+      { text: 'Meeting Objectives', style: 'heading', pageBreak: 'before' },
+      { text: minutes.objectives || 'No context provided.', margin: [0, 0, 0, 16] },
+      { text: 'Transcript', style: 'heading' },
+      transcript,
+    ],
+    styles: {
+      brand: { fontSize: 10, bold: true, color: '#2563eb', alignment: 'center' },
+      title: { fontSize: 24, bold: true, alignment: 'center', margin: [0, 8, 0, 24] },
+      meta: { fontSize: 11, alignment: 'center', color: '#475569', margin: [0, 2, 0, 2] },
+      heading: { fontSize: 14, bold: true, margin: [0, 0, 0, 8] },
+      tableHeader: { bold: true, fillColor: '#dbeafe', margin: [0, 4, 0, 4] },
+      time: { fontSize: 7, color: '#94a3b8' },
+    },
+    defaultStyle: { font: defaultFont, fontSize: 10, lineHeight: 1.25 },
+  };
+
+  return new Promise(resolve => pdfMake.createPdf(definition, undefined, fonts, vfs).getBlob(resolve));
+};
@@ -0,0 +1,87 @@
+import { GlossaryEntry, TranscriptSegment } from '../types';
+import { generateId } from './segments';
+import { parseCsv } from './csv';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Upper bound on terms sent to the refiner, which gets the whole glossary rather than the matching part
+const MAX_REFINER_TERMS = 200;
+
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+// Scripts written without spaces between words, where a term can sit directly next to other letters
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Whether two adjacent characters belong to the same word: both letters or digits of spaced scripts
+const joined = (a: string | undefined, b: string | undefined) =>
+  !!a && !!b && WORD_CHAR.test(a) && WORD_CHAR.test(b) && !UNSPACED_SCRIPT.test(a) && !UNSPACED_SCRIPT.test(b);
+
+/**
+ * Whole-word, case-insensitive match that also works for accented and non-Latin scripts.
+ * Next to Chinese, Japanese or Thai text there are no word boundaries to check, so any occurrence counts there.
+ */
+export const containsTerm = (text: string, term: string) => {
+  const trimmed = term.trim();
+  if (!trimmed) return false;
+  for (const match of text.matchAll(new RegExp(escapeRegExp(trimmed), 'giu'))) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (!joined(text[start - 1], match[0][0]) && !joined(match[0][match[0].length - 1], text[end])) return true;
+  }
+  return false;
+};
+
+/** Entries whose source term occurs in any of the texts, so prompts only carry what applies */
+export const relevantGlossary = (glossary: GlossaryEntry[], texts: string[]) =>
+  glossary.filter(entry => texts.some(text => containsTerm(text, entry.source)));
+
+/**
+ * Entries for the refiner. Filtering by occurrence would be wrong here: a term the recognizer
+ * misheard is exactly one that does not occur in the raw text yet.
+ */
+export const refinerGlossary = (glossary: GlossaryEntry[]) =>
+  glossary.filter(entry => entry.source.trim()).slice(0, MAX_REFINER_TERMS);
+
+/** How the interpretation must render an entry */
+export const expectedTerm = (entry: GlossaryEntry) => entry.doNotTranslate ? entry.source.trim() : entry.target.trim();
+
+/**
+ * Glossary terms spoken in a segment whose interpretation does not use the agreed rendering.
+ * Untranslated and stale segments are skipped; they will be checked once interpreted.
+ */
+export const glossaryIssues = (segment: TranscriptSegment, glossary: GlossaryEntry[]): string[] => {
+  if (!segment.translation.trim() || segment.translatedSource !== segment.source) return [];
+  return glossary
+    .filter(entry => expectedTerm(entry) && containsTerm(segment.source, entry.source) && !containsTerm(segment.translation, expectedTerm(entry)))
+    .map(entry => `"${entry.source.trim()}" should be rendered as "${expectedTerm(entry)}"`);
+};
+
+/** Adds entries for terms not yet in the glossary; existing renderings win */
+export const mergeGlossary = (current: GlossaryEntry[], added: GlossaryEntry[]): GlossaryEntry[] => {
+  const known = new Set(current.map(e => e.source.trim().toLowerCase()));
+  const fresh = added.filter(e => {
+    const key = e.source.trim().toLowerCase();
+    if (!key || known.has(key)) return false;
+    known.add(key);
+    return true;
+  });
+  return [...current, ...fresh.map(e => ({ ...e, id: generateId() }))];
+};
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const glossaryToCsv = (glossary: GlossaryEntry[]) =>
+  ['source,target,do_not_translate', ...glossary.map(e => [csvCell(e.source), csvCell(e.target), e.doNotTranslate ? 'yes' : ''].join(','))].join('\n');
+
+/** Reads a glossary CSV (source, target, do-not-translate). A header row is skipped when present. */
+export const glossaryFromCsv = (text: string): GlossaryEntry[] => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, '')).filter(r => r.some(cell => cell.trim()));
+  if (rows[0]?.[0]?.trim().toLowerCase() === 'source') rows.shift();
+  return rows
+    .map(([source = '', target = '', flag = '']) => ({
+      id: generateId(),
+      source: source.trim(),
+      target: target.trim(),
+      ...(/^(yes|true|1|x)$/i.test(flag.trim()) ? { doNotTranslate: true } : {})
+    }))
+    .filter(e => e.source);
+};
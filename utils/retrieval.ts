@@ -0,0 +1,148 @@
+// Local passage retrieval over the session's reference documents (BM25 over word tokens, or character pairs in Chinese, Japanese and Thai)
+import { ReferenceFile, SessionData } from '../types';
+
+const TARGET_PASSAGE_CHARS = 600;
+const MAX_REFERENCE_CHARS = 3000; // Reference text per interpreter request
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words too common to say anything about relevance; figures and names are what we are after
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'his', 'how', 'its', 'may', 'who', 'did', 'get', 'him', 'let', 'say', 'she', 'too', 'use', 'that', 'with',
+  'have', 'this', 'will', 'your', 'from', 'they', 'been', 'were', 'what', 'when', 'which', 'their', 'there', 'would',
+  'about', 'could', 'into', 'than', 'then', 'them', 'these', 'those', 'some', 'also', 'just', 'very', 'more', 'here',
+  'is', 'it', 'in', 'on', 'of', 'to', 'a', 'an', 'as', 'at', 'be', 'by', 'or', 'we', 'so', 'if', 'do', 'no', 'us'
+]);
+
+export interface ReferencePassage {
+  fileName: string;
+  text: string;
+}
+
+export interface ReferenceIndex {
+  passages: ReferencePassage[];
+  termCounts: Map<string, number>[]; // Per passage
+  lengths: number[];                 // Tokens per passage
+  averageLength: number;
+  documentFrequency: Map<string, number>;
+}
+
+export interface RetrievedPassage {
+  index: number; // Position in `ReferenceIndex.passages`
+  text: string;
+  score: number;
+}
+
+// Scripts written without spaces, where a run of letters is a whole phrase rather than one word
+const UNSPACED = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Thai}\\p{Script=Lao}\\p{Script=Khmer}\\p{Script=Myanmar}';
+const TOKEN_PATTERN = new RegExp(`[${UNSPACED}]+|(?:(?![${UNSPACED}])[\\p{L}\\p{N}])+`, 'gu');
+const UNSPACED_START = new RegExp(`^[${UNSPACED}]`, 'u');
+
+// Overlapping character pairs stand in for the words of an unspaced run; a lone character is kept
+const bigrams = (run: string) => {
+  const chars = Array.from(run);
+  return chars.length < 2 ? chars : chars.slice(1).map((c, i) => chars[i] + c);
+};
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().normalize('NFC').match(TOKEN_PATTERN) || []).flatMap(token => {
+    if (UNSPACED_START.test(token)) return bigrams(token);
+    return (token.length > 1 || /\d/.test(token)) && !STOPWORDS.has(token) ? [token] : [];
+  });
+
+/**
+ * Splits extracted document text into passages of roughly TARGET_PASSAGE_CHARS, keeping
+ * paragraphs together where they fit and cutting long ones between sentences.
+ */
+export const splitPassages = (text: string): string[] => {
+  const sentences = text
+    .split(/\n\s*\n|\n(?=[-•*\d])/)
+    .flatMap(paragraph => {
+      const flat = paragraph.replace(/\s+/g, ' ').trim();
+      if (flat.length <= TARGET_PASSAGE_CHARS) return flat ? [flat] : [];
+      // Long blocks are cut at line ends (table rows, slide bullets), then between sentences
+      return paragraph.split('\n').flatMap(line => {
+        const text = line.replace(/\s+/g, ' ').trim();
+        if (text.length <= TARGET_PASSAGE_CHARS) return text ? [text] : [];
+        return text.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g)?.map(s => s.trim()).filter(Boolean) || [text];
+      });
+    });
+
+  const passages: string[] = [];
+  let current = '';
+  sentences.forEach(piece => {
+    if (current && current.length + piece.length + 1 > TARGET_PASSAGE_CHARS) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${piece}` : piece;
+  });
+  if (current) passages.push(current);
+  return passages;
+};
+
+// Reference documents of a session; older sessions kept a single one in `fileContent`
+export const sessionReferences = (data: SessionData): ReferenceFile[] =>
+  data.references || (data.fileContent ? [{ id: 'legacy', name: data.fileName || 'Reference', content: data.fileContent }] : []);
+
+export const buildReferenceIndex = (files: ReferenceFile[]): ReferenceIndex => {
+  const passages = files.flatMap(file => splitPassages(file.content).map(text => ({ fileName: file.name, text })));
+  const documentFrequency = new Map<string, number>();
+  const termCounts = passages.map(passage => {
+    const counts = new Map<string, number>();
+    tokenize(passage.text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    counts.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((a, b) => a + b, 0));
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / (lengths.length || 1);
+  return { passages, termCounts, lengths, averageLength, documentFrequency };
+};
+
+/** Best-matching passages for `query`, highest score first; passages sharing no term are never returned */
+export const retrievePassages = (index: ReferenceIndex, query: string, limit = 2): RetrievedPassage[] => {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0 || index.passages.length === 0) return [];
+  const n = index.passages.length;
+
+  return index.termCounts
+    .map((counts, i) => {
+      let score = 0;
+      terms.forEach(term => {
+        const tf = counts.get(term);
+        if (!tf) return;
+        const df = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * index.lengths[i] / (index.averageLength || 1)));
+      });
+      return { index: i, text: index.passages[i].text, score };
+    })
+    .filter(p => p.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+/**
+ * Passages to send along with one interpreter request: the best matches of each segment, keeping the
+ * strongest when they exceed MAX_REFERENCE_CHARS. `used` lists, per segment, the passages that made it in.
+ */
+export const passagesForSegments = (index: ReferenceIndex, sources: string[], perSegment = 2): { passages: number[]; used: number[][] } => {
+  const matches = sources.map(source => retrievePassages(index, source, perSegment));
+  const best = new Map<number, number>();
+  matches.flat().forEach(p => best.set(p.index, Math.max(best.get(p.index) || 0, p.score)));
+
+  const passages: number[] = [];
+  let chars = 0;
+  Array.from(best.entries())
+    .sort((a, b) => b[1] - a[1])
+    .forEach(([i]) => {
+      const length = index.passages[i].text.length;
+      if (chars + length > MAX_REFERENCE_CHARS) return;
+      chars += length;
+      passages.push(i);
+    });
+  passages.sort((a, b) => a - b); // Document order reads better than score order
+
+  return { passages, used: matches.map(m => m.map(p => p.index).filter(i => passages.includes(i))) };
+};
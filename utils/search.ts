@@ -0,0 +1,75 @@
+import { SessionData, SessionSearchDoc, SessionSearchHit } from '../types';
+import { segmentsFromLegacy } from './segments';
+
+const SNIPPET_CONTEXT = 48; // Characters shown either side of a match
+const MAX_HITS_PER_SESSION = 5;
+const MAX_HITS = 200;
+
+const foldCache = new Map<string, string>();
+
+// Lower-cases and strips diacritics one UTF-16 unit at a time, so folded text keeps the
+// original's indices and a match can be cut straight out of the unfolded string.
+const foldChar = (c: string) => {
+  let folded = foldCache.get(c);
+  if (folded === undefined) {
+    const lower = c.toLowerCase();
+    const stripped = lower === 'đ' ? 'd' : lower.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    folded = stripped.length === 1 ? stripped : (lower.length === 1 ? lower : c);
+    foldCache.set(c, folded);
+  }
+  return folded;
+};
+
+export const foldText = (text: string) => {
+  let out = '';
+  for (let i = 0; i < text.length; i++) out += foldChar(text[i]);
+  return out;
+};
+
+export const buildSearchDoc = (id: string, data: SessionData): SessionSearchDoc => {
+  const segments = data.segments || segmentsFromLegacy(data.text || '', data.translatedText || '');
+  return {
+    id,
+    entries: segments
+      .filter(s => s.source.trim() || s.translation.trim())
+      .map(s => ({
+        segmentId: s.id,
+        source: s.source,
+        translation: s.translation,
+        sourceFolded: foldText(s.source),
+        translationFolded: foldText(s.translation)
+      }))
+  };
+};
+
+const snippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_CONTEXT);
+  const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+  return {
+    before: (start > 0 ? '…' : '') + text.slice(start, index),
+    match: text.slice(index, index + length),
+    after: text.slice(index + length, end) + (end < text.length ? '…' : '')
+  };
+};
+
+/** Case- and accent-insensitive phrase search over the indexed transcripts and interpretations */
+export const searchDocs = (docs: SessionSearchDoc[], query: string): SessionSearchHit[] => {
+  const needle = foldText(query.trim());
+  if (needle.length < 2) return [];
+
+  const hits: SessionSearchHit[] = [];
+  for (const doc of docs) {
+    let perSession = 0;
+    for (const entry of doc.entries) {
+      for (const field of ['source', 'translation'] as const) {
+        const index = entry[field === 'source' ? 'sourceFolded' : 'translationFolded'].indexOf(needle);
+        if (index === -1) continue;
+        hits.push({ sessionId: doc.id, segmentId: entry.segmentId, field, ...snippet(entry[field], index, needle.length) });
+        if (++perSession >= MAX_HITS_PER_SESSION || hits.length >= MAX_HITS) break;
+      }
+      if (perSession >= MAX_HITS_PER_SESSION || hits.length >= MAX_HITS) break;
+    }
+    if (hits.length >= MAX_HITS) break;
+  }
+  return hits;
+};
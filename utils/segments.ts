@@ -0,0 +1,103 @@
+import { TranscriptSegment } from '../types';
+import { parseSpeakerLine } from './speakers';
+
+export const generateId = () => Math.random().toString(36).substring(2, 11);
+
+export const createSegment = (source: string, startTime: number, extra: Partial<TranscriptSegment> = {}): TranscriptSegment => ({
+  id: generateId(),
+  source,
+  translation: '',
+  startTime,
+  endTime: startTime,
+  ...extra
+});
+
+// A segment needs (re-)interpretation when it has never been translated or its source changed since
+export const needsTranslation = (s: TranscriptSegment) =>
+  s.source.trim().length > 0 && s.translatedSource !== s.source;
+
+export const joinSegments = (segments: TranscriptSegment[], field: 'source' | 'translation') =>
+  segments.map(s => s[field].trim()).filter(Boolean).join('\n');
+
+/**
+ * Writes model output back onto the segments it was produced for.
+ * Segments whose source changed while the request was in flight are left untouched.
+ */
+export const applyById = (
+  segments: TranscriptSegment[],
+  requested: TranscriptSegment[],
+  update: (segment: TranscriptSegment, index: number) => Partial<TranscriptSegment>
+): TranscriptSegment[] => {
+  const index = new Map(requested.map((s, i) => [s.id, i]));
+  return segments.map(s => {
+    const i = index.get(s.id);
+    if (i === undefined || requested[i].source !== s.source) return s;
+    return { ...s, ...update(s, i) };
+  });
+};
+
+/**
+ * Turns a line-per-utterance transcript of audio spoken between `startTime` and `endTime`
+ * into closed segments, spreading the time span over the lines by character share.
+ * Model transcripts are already punctuated, so the segments skip the refiner.
+ * "Speaker N:" labels become the segment's speaker; unlabelled lines continue the previous turn.
+ */
+export const segmentsFromTranscript = (transcript: string, startTime: number, endTime: number): TranscriptSegment[] => {
+  let speaker: string | undefined;
+  const lines = transcript.split('\n')
+    .map(l => {
+      const parsed = parseSpeakerLine(l.trim());
+      if (parsed.speaker) speaker = parsed.speaker;
+      return { text: parsed.text, speaker };
+    })
+    .filter(l => l.text);
+  const totalChars = lines.reduce((n, l) => n + l.text.length, 0) || 1;
+  let cursor = startTime;
+  return lines.map(({ text, speaker }) => {
+    const start = cursor;
+    cursor += (endTime - startTime) * (text.length / totalChars);
+    return createSegment(text, start, { endTime: cursor, refined: true, closed: true, ...(speaker ? { speaker } : {}) });
+  });
+};
+
+/** Inserts segments recovered after the fact before the first existing segment that started later */
+export const insertByTime = (segments: TranscriptSegment[], added: TranscriptSegment[]): TranscriptSegment[] => {
+  if (added.length === 0) return segments;
+  const at = segments.findIndex(s => s.startTime > added[0].startTime);
+  return at === -1 ? [...segments, ...added] : [...segments.slice(0, at), ...added, ...segments.slice(at)];
+};
+
+/** Segment being spoken at `time` on the session clock: the last one that started by then, until the next begins */
+export const segmentAtTime = (segments: TranscriptSegment[], time: number): TranscriptSegment | null => {
+  let found: TranscriptSegment | null = null;
+  for (const s of segments) {
+    if (s.startTime > time) break;
+    found = s;
+  }
+  return found;
+};
+
+const legacySegmentId = (index: number) => `legacy-${index}`;
+
+/**
+ * Rebuilds segments from sessions saved before the segment model existed.
+ * Lines are paired one-to-one when both blobs have the same shape; otherwise the
+ * interpretation is kept whole on a single segment so nothing is lost.
+ * Ids come from the line position, so the search index and an opened session agree on them
+ * until the session is saved with real segments.
+ */
+export const segmentsFromLegacy = (text: string, translatedText: string): TranscriptSegment[] => {
+  const sourceLines = text.split('\n').map(l => l.trim()).filter(Boolean);
+  const targetLines = translatedText.split('\n').map(l => l.trim()).filter(Boolean);
+  if (sourceLines.length === 0 && targetLines.length === 0) return [];
+
+  if (sourceLines.length === targetLines.length) {
+    return sourceLines.map((source, i) =>
+      createSegment(source, 0, { id: legacySegmentId(i), translation: targetLines[i], translatedSource: source, refined: true, closed: true })
+    );
+  }
+
+  const source = sourceLines.join('\n');
+  const translation = targetLines.join('\n');
+  return [createSegment(source, 0, { id: legacySegmentId(0), translation, translatedSource: translation ? source : undefined, refined: true, closed: true })];
+};
@@ -0,0 +1,105 @@
+import { SessionBundle, SessionBundleEntry, SessionData, SessionMetadata, TranscriptSegment } from '../types';
+import { generateId } from './segments';
+
+export const SESSION_BUNDLE_FORMAT = 'hieuai-session-bundle';
+export const SESSION_BUNDLE_VERSION = 1;
+
+export const createBundle = (sessions: SessionBundleEntry[]): SessionBundle => ({
+  format: SESSION_BUNDLE_FORMAT,
+  version: SESSION_BUNDLE_VERSION,
+  exportedAt: Date.now(),
+  sessions
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+const str = (value: unknown) => typeof value === 'string' ? value : '';
+const num = (value: unknown, fallback = 0) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Segments missing their text or timing are dropped. Ids must be unique within a session (edits,
+// playback and saved references find segments by id), so a repeated or missing one is replaced.
+const normalizeSegments = (raw: unknown[]): TranscriptSegment[] => {
+  const seen = new Set<string>();
+  return raw
+    .filter((s): s is Record<string, unknown> => isObject(s) && typeof s.source === 'string' && typeof s.translation === 'string'
+      && isFiniteNumber(s.startTime) && isFiniteNumber(s.endTime))
+    .map(s => {
+      const id = str(s.id) && !seen.has(str(s.id)) ? str(s.id) : generateId();
+      seen.add(id);
+      return {
+        id,
+        source: str(s.source),
+        translation: str(s.translation),
+        startTime: num(s.startTime),
+        endTime: num(s.endTime),
+        ...(s.refined === true ? { refined: true } : {}),
+        ...(typeof s.translatedSource === 'string' ? { translatedSource: s.translatedSource } : {}),
+        ...(s.closed === true ? { closed: true } : {}),
+        ...(typeof s.speaker === 'string' ? { speaker: s.speaker } : {}),
+        ...(Array.isArray(s.references) ? { references: s.references.filter(isFiniteNumber) } : {})
+      };
+    });
+};
+
+// Fill in anything an older or hand-edited bundle may lack so the rest of the app can trust the shape
+const normalizeEntry = (raw: unknown, index: number): SessionBundleEntry => {
+  if (!isObject(raw) || !isObject(raw.meta) || !isObject(raw.data) || !str(raw.meta.id)) {
+    throw new Error(`Session #${index + 1} in the bundle is malformed.`);
+  }
+  const { meta: m, data: d } = raw;
+  const meta: SessionMetadata = {
+    id: str(m.id),
+    name: str(m.name) || 'Imported Session',
+    createdAt: num(m.createdAt, Date.now()),
+    updatedAt: num(m.updatedAt, Date.now()),
+    durationSeconds: num(m.durationSeconds),
+    wordCount: num(m.wordCount),
+    ...(typeof m.sizeBytes === 'number' ? { sizeBytes: m.sizeBytes } : {})
+  };
+  const data: SessionData = {
+    text: str(d.text),
+    translatedText: str(d.translatedText),
+    segments: Array.isArray(d.segments) ? normalizeSegments(d.segments) : undefined,
+    contextDesc: str(d.contextDesc),
+    fileContent: str(d.fileContent),
+    ...(typeof d.fileName === 'string' ? { fileName: d.fileName } : {}),
+    ...(isFiniteNumber(d.processedIndex) ? { processedIndex: d.processedIndex } : {}),
+    ...(isObject(d.languagePair) && typeof d.languagePair.source === 'string' && typeof d.languagePair.target === 'string'
+      ? { languagePair: { source: d.languagePair.source, target: d.languagePair.target } }
+      : {}),
+    references: Array.isArray(d.references)
+      ? d.references
+          .filter((f: unknown): f is Record<string, unknown> => isObject(f) && typeof f.content === 'string')
+          .map(f => ({ id: str(f.id) || generateId(), name: str(f.name) || 'Reference', content: str(f.content) }))
+      : undefined,
+    speakers: isObject(d.speakers)
+      ? Object.fromEntries(Object.entries(d.speakers).filter(([, name]) => typeof name === 'string')) as Record<string, string>
+      : undefined,
+    glossary: Array.isArray(d.glossary)
+      ? d.glossary
+          .filter((e: unknown): e is Record<string, unknown> => isObject(e) && typeof e.source === 'string')
+          .map(e => ({ id: str(e.id) || generateId(), source: str(e.source), target: str(e.target), ...(e.doNotTranslate ? { doNotTranslate: true } : {}) }))
+      : undefined
+  };
+  return { meta, data };
+};
+
+/** Parses and validates a bundle file. Throws with a user-facing message on bad input. */
+export const parseBundle = (json: string): SessionBundle => {
+  let raw: unknown;
+  try { raw = JSON.parse(json); } catch { throw new Error('The file is not valid JSON.'); }
+
+  if (!isObject(raw) || raw.format !== SESSION_BUNDLE_FORMAT || !Array.isArray(raw.sessions)) {
+    throw new Error('The file is not a HIEUAI session bundle.');
+  }
+  if (num(raw.version) > SESSION_BUNDLE_VERSION) {
+    throw new Error(`The bundle was exported by a newer version (v${raw.version}). Update the app to import it.`);
+  }
+
+  return {
+    format: SESSION_BUNDLE_FORMAT,
+    version: num(raw.version, SESSION_BUNDLE_VERSION),
+    exportedAt: num(raw.exportedAt),
+    sessions: raw.sessions.map(normalizeEntry)
+  };
+};
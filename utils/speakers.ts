@@ -0,0 +1,26 @@
+import { TranscriptSegment } from '../types';
+
+// Turn labels the transcription prompt asks for ("Speaker 2: ..."), also tolerating markdown bold
+const SPEAKER_LINE = /^\s*\**\s*speaker\s*(\d+)\s*\**\s*:\s*\**\s*/i;
+
+/** Splits a "Speaker N:" label off a transcript line */
+export const parseSpeakerLine = (line: string): { speaker?: string; text: string } => {
+  const match = line.match(SPEAKER_LINE);
+  return match ? { speaker: String(Number(match[1])), text: line.slice(match[0].length).trim() } : { text: line };
+};
+
+export const speakerName = (id: string, names: Record<string, string> = {}) => names[id]?.trim() || `Speaker ${id}`;
+
+/** Speaker ids in order of first appearance */
+export const listSpeakers = (segments: TranscriptSegment[]): string[] =>
+  Array.from(new Set(segments.map(s => s.speaker).filter((id): id is string => !!id)));
+
+/** Id following the highest numeric id in use */
+export const nextSpeakerId = (ids: string[]) => {
+  const used = ids.map(Number).filter(n => !isNaN(n));
+  return String(used.length ? Math.max(...used) + 1 : 1);
+};
+
+/** Whether a label should be shown before this segment: the speaker changed since the previous one */
+export const startsTurn = (segments: TranscriptSegment[], index: number) =>
+  !!segments[index].speaker && segments[index].speaker !== segments[index - 1]?.speaker;
@@ -0,0 +1,122 @@
+import { TranscriptSegment } from '../types';
+import { speakerName, startsTurn } from './speakers';
+
+export type SubtitleTrack = 'source' | 'translation' | 'bilingual';
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  lines: string[];
+}
+
+// Subtitle counterpart of the transcript's MAX_READABLE_LINE_LENGTH: broadcast-style 42 chars x 2 lines
+const MAX_CUE_LINE_LENGTH = 42;
+const MAX_CUE_LINES = 2;
+const MIN_CUE_SECONDS = 1;
+const READING_CHARS_PER_SECOND = 15; // Used when a segment carries no usable timing
+
+// Break text into `n` word-aligned pieces of roughly equal length
+const splitEven = (text: string, n: number): string[] => {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (n <= 1 || words.length <= 1) return [words.join(' ')];
+  const target = text.length / n;
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  words.forEach((word, i) => {
+    current.push(word);
+    currentLength += word.length + 1;
+    const remainingWords = words.length - i - 1;
+    const remainingPieces = n - pieces.length - 1;
+    if (currentLength >= target && remainingPieces > 0 && remainingWords >= remainingPieces) {
+      pieces.push(current.join(' '));
+      current = [];
+      currentLength = 0;
+    }
+  });
+  if (current.length) pieces.push(current.join(' '));
+  return pieces;
+};
+
+// Wrap one cue's text into at most two balanced lines
+const wrapLines = (text: string): string[] => {
+  if (text.length <= MAX_CUE_LINE_LENGTH) return [text];
+  const middle = text.length / 2;
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ' ' && (best === -1 || Math.abs(i - middle) < Math.abs(best - middle))) best = i;
+  }
+  if (best === -1) return [text];
+  return [text.slice(0, best), text.slice(best + 1)];
+};
+
+const pieceCount = (text: string) => Math.max(1, Math.ceil(text.length / (MAX_CUE_LINE_LENGTH * MAX_CUE_LINES)));
+
+/**
+ * Turns segments into timed cues. Each segment's time span is shared across its cues by
+ * character count, and never runs into the next segment. With `speakerNames`, a change of
+ * speaker is announced at the start of the turn's first cue.
+ */
+export const buildCues = (segments: TranscriptSegment[], track: SubtitleTrack, speakerNames?: Record<string, string>): SubtitleCue[] => {
+  const usable = segments.filter(s => track === 'translation' ? s.translation.trim() : s.source.trim());
+  const cues: SubtitleCue[] = [];
+  let floor = 0; // Untimed (legacy) segments are laid out one after another instead of stacking at 0
+
+  usable.forEach((segment, idx) => {
+    const label = speakerNames && startsTurn(usable, idx) ? `${speakerName(segment.speaker!, speakerNames)}: ` : '';
+    const source = label + segment.source.trim();
+    const translation = segment.translation.trim() ? label + segment.translation.trim() : '';
+    const reference = track === 'translation' ? translation : source;
+
+    const nextStart = usable[idx + 1]?.startTime ?? Infinity;
+    const start = Math.max(segment.startTime, floor);
+    const estimated = start + reference.length / READING_CHARS_PER_SECOND;
+    let end = segment.endTime > start ? segment.endTime : estimated;
+    end = Math.min(Math.max(end, start + MIN_CUE_SECONDS), nextStart > start ? nextStart : Infinity);
+
+    let pieces: string[][];
+    if (track === 'bilingual') {
+      const n = Math.max(pieceCount(source), translation ? pieceCount(translation) : 1);
+      const src = splitEven(source, n);
+      const tgt = translation ? splitEven(translation, n) : [];
+      pieces = src.map((s, i) => [...wrapLines(s), ...(tgt[i] ? wrapLines(tgt[i]) : [])]);
+      // Uneven word counts can leave the translation with extra pieces; fold them into the last cue
+      if (tgt.length > src.length) pieces[pieces.length - 1].push(...tgt.slice(src.length).flatMap(wrapLines));
+    } else {
+      pieces = splitEven(reference, pieceCount(reference)).map(wrapLines);
+    }
+
+    const weights = pieces.map(p => p.join(' ').length || 1);
+    const total = weights.reduce((a, b) => a + b, 0);
+    let cursor = start;
+    pieces.forEach((lines, i) => {
+      const pieceEnd = i === pieces.length - 1 ? end : cursor + (end - start) * (weights[i] / total);
+      cues.push({ start: cursor, end: pieceEnd, lines });
+      cursor = pieceEnd;
+    });
+    floor = end;
+  });
+
+  return cues;
+};
+
+const stamp = (seconds: number, separator: ',' | '.') => {
+  const ms = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  const pad = (v: number, n = 2) => v.toString().padStart(n, '0');
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSrt = (cues: SubtitleCue[]) =>
+  cues.map((c, i) => `${i + 1}\n${stamp(c.start, ',')} --> ${stamp(c.end, ',')}\n${c.lines.join('\n')}\n`).join('\n');
+
+export const toVtt = (cues: SubtitleCue[]) =>
+  'WEBVTT\n\n' + cues.map(c => `${stamp(c.start, '.')} --> ${stamp(c.end, '.')}\n${c.lines.join('\n')}\n`).join('\n');
+
+export const buildSubtitles = (segments: TranscriptSegment[], track: SubtitleTrack, format: SubtitleFormat, speakerNames?: Record<string, string>) => {
+  const cues = buildCues(segments, track, speakerNames);
+  return format === 'srt' ? toSrt(cues) : toVtt(cues);
+};
@@ -1,19 +1,84 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Content-Security-Policy for built pages. Every script, style, font and worker comes from the
+// bundle; connect-src stays open to HTTPS (and local model servers) because AI endpoints are
+// configured at runtime. Deployments with fixed endpoints can narrow it with CSP_CONNECT_SRC.
+const contentSecurityPolicy = (connectSrc: string) => [
+  "default-src 'self'",
+  "script-src 'self'",
+  "style-src 'self'",
+  "font-src 'self' data:",
+  "img-src 'self' data: blob:",
+  "media-src 'self' blob:",
+  "worker-src 'self'",
+  `connect-src ${connectSrc}`,
+  "object-src 'none'",
+  "base-uri 'self'",
+  "form-action 'self'"
+].join('; ');
+
+const DEFAULT_CONNECT_SRC = "'self' https: http://localhost:* http://127.0.0.1:*";
+
+const publicFiles = (dir: string) => (fs.readdirSync(dir, { recursive: true }) as string[])
+  .filter(file => fs.statSync(path.join(dir, file)).isFile())
+  .map(file => file.split(path.sep).join('/'));
+
+// Emits sw.js (from the template at the project root) listing every file of the build, so the
+// installed app opens without a network. The build id changes whenever any of those files does.
+const serviceWorker = (): Plugin => ({
+  name: 'service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const hash = createHash('sha256');
+    Object.values(bundle).forEach(file => hash.update(file.type === 'chunk' ? file.code : file.source));
+    publicFiles(publicDir).forEach(file => hash.update(fs.readFileSync(path.join(publicDir, file))));
+
+    const files = [...Object.keys(bundle), ...publicFiles(publicDir)].filter(file => file !== 'index.html' && !file.endsWith('.map'));
+    const source = fs.readFileSync(path.resolve(__dirname, 'sw.js'), 'utf-8')
+      .replace('__BUILD_ID__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+      .replace('__PRECACHE_URLS__', JSON.stringify(['./', ...files]));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Only compile the Gemini key into the bundle for local dev or when a build explicitly opts in.
+    // Published builds expect a user-supplied key or a proxy (GEMINI_PROXY_URL) that holds it.
+    const bundledKey = mode === 'development' || env.GEMINI_EMBED_KEY === 'true' ? env.GEMINI_API_KEY || '' : '';
     return {
         base: '/DICHAI1/',
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          // Build only: the dev server relies on inline scripts and styles for HMR
+          name: 'content-security-policy',
+          apply: 'build',
+          // Right after the charset, ahead of every script and stylesheet it has to cover
+          transformIndexHtml: (html: string) => html.replace(
+            /(<meta charset[^>]*>)/i,
+            `$1\n    <meta http-equiv="Content-Security-Policy" content="${contentSecurityPolicy(env.CSP_CONNECT_SRC || DEFAULT_CONNECT_SRC)}" />`
+          )
+        },
+        serviceWorker()
+      ],
+      worker: {
+        format: 'es'
+      },
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(bundledKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL || '')
       },
       resolve: {
         alias: {